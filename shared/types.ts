@@ -8,12 +8,200 @@ export interface User {
   id: string; // username
   username: string;
 }
+// Sent as `data` alongside a 429 when password attempts are temporarily locked out.
+export interface LoginThrottle {
+  retryAt: string; // ISO timestamp after which the next attempt is accepted
+}
+// Returned by POST /api/auth/login in place of a session when the password is right but the account
+// has two-factor authentication on; the login is sent again with `code`.
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
+// Returned by POST /api/auth/login for accounts that still have the password itself hashed on the server
+// (from before login secrets). The login is sent again with `password` once, and the hash is replaced.
+export interface PasswordUpgradeChallenge {
+  passwordUpgradeRequired: true;
+}
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+}
+// A secret offered for enrollment. It only takes effect once a code generated from it is confirmed.
+export interface TwoFactorSetup {
+  secret: string; // base32, for typing into an authenticator by hand
+  otpauthUri: string; // the same secret as shown in the QR code
+}
+// Shown to the user once; the server keeps only their hashes.
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
+// A login session as shown to its owner.
+export interface SessionInfo {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt: string;
+  userAgent: string;
+  current: boolean; // true for the session making the request
+}
+// The user's random data key, wrapped (AES-GCM) with a key derived from their password.
+// The server only ever stores this opaque blob and cannot unwrap it.
+export interface VaultKey {
+  salt: string; // base64 PBKDF2 salt
+  iterations: number;
+  iv: string; // base64
+  wrappedKey: string; // base64
+}
+// The encrypted form of a note's title and content.
+export interface NoteCiphertext {
+  ciphertext: string; // base64 AES-GCM output of JSON { title, content }
+  iv: string; // base64
+  salt: string; // base64 HKDF salt for the per-note key
+}
+// A saved snapshot of a note. Title and content are inside the ciphertext like on the note itself.
+export interface NoteRevision extends NoteCiphertext {
+  id: string;
+  noteId: string;
+  createdAt: string;
+  size: number; // ciphertext size in bytes
+}
+// One page of results from a cursor-paginated endpoint.
+export interface Page<T> {
+  items: T[];
+  next: string | null;
+}
+// Response of `GET /api/notes/changes?since=`. With `reset`, the local copy is too old to
+// catch up: `notes` is empty, and the list should be dropped and loaded again from `GET /api/notes`.
+export interface NoteChanges {
+  notes: Note[];
+  deleted: string[];
+  reset: boolean;
+  cursor: number; // pass as `since` on the next sync
+}
+// Response of `POST /api/notes/import`. `failed` refers to notes by their index in the request.
+export interface ImportResult {
+  created: Note[];
+  failed: { index: number; error: string }[];
+}
+// A note matching a search, best match first.
+export interface SearchResult {
+  noteId: string;
+  score: number;
+}
+// How a note's content is edited and displayed. Notes without a format are plain text.
+export type NoteFormat = 'plain' | 'markdown';
 // Represents a single note document
-export interface Note {
+export interface Note extends Partial<NoteCiphertext> {
   id: string;
+  // Plaintext fields are only populated in the browser after decryption.
+  // The server stores them empty once a note has been encrypted.
   title: string;
   content: string;
   userId: string; // The username of the owner
   createdAt: string;
   updatedAt: string;
-}
\ No newline at end of file
+  notebookId?: string | null; // null or missing: not in any notebook
+  tags?: string[]; // ids of the user's tags
+  format?: NoteFormat;
+  pinned?: boolean;
+  pinnedAt?: string | null; // pinned notes are listed in the order they were pinned
+  favorite?: boolean;
+  deletedAt?: string | null; // set while the note is in the trash
+  archived?: boolean;
+  archivedAt?: string | null;
+  // Encrypted NotePreview, so the list can be drawn without downloading every note. `GET /api/notes`
+  // leaves out the content ciphertext of notes that have one; older notes are sent whole.
+  preview?: NoteCiphertext | null;
+  // Storage version of the note, sent back as `If-Match` on update. Not part of the stored document.
+  version?: number;
+  // Storage version at which the encrypted content was last written. Pinning, tagging, archiving and the
+  // like bump `version` but not this, so a save made against any version from here on is not a conflict.
+  contentVersion?: number;
+}
+// What the note list shows of a note whose content has not been downloaded.
+export interface NotePreview {
+  title: string;
+  excerpt: string;
+  tasks: { done: number; total: number };
+}
+// How the note list is ordered. 'manual' follows the drag-and-drop order in `order`.
+export type NoteSort = 'updated' | 'created' | 'title' | 'manual';
+// The user's note list settings, shared by all of their devices.
+export interface NoteListPreferences {
+  sort: NoteSort;
+  order: string[]; // note ids, top first; notes missing from it are listed above the rest
+}
+// Bumped whenever the layout of a backup changes; restoring refuses versions it does not know.
+export const BACKUP_VERSION = 1;
+// Response of `GET /api/user/backup`: the whole account as stored. Note text and names are still
+// encrypted with the data key; the browser adds the key and encrypts the bundle with a passphrase.
+export interface AccountBackup {
+  version: number;
+  createdAt: string;
+  username: string;
+  noteList: NoteListPreferences;
+  notes: Note[];
+  notebooks: Notebook[];
+  tags: Tag[];
+}
+// What restoring does with the notes already in the account: 'merge' keeps them and adds the notes
+// of the backup that are missing, 'replace' ends with only what the backup holds. A replace deletes
+// the old notes, notebooks and tags last, once the backup is in, so a restore that breaks off midway
+// loses nothing.
+export type RestoreMode = 'merge' | 'replace';
+// A restore takes three steps, with the backup re-encrypted with the account's current data key:
+// `POST /api/user/restore` adds the tags and notebooks, `POST /api/user/restore/notes` adds the notes
+// in batches, and `POST /api/user/restore/finish` completes it.
+export interface RestoreRequest extends Pick<AccountBackup, 'version' | 'notebooks' | 'tags'> {
+  mode: RestoreMode;
+}
+export interface RestoreStarted {
+  notebookIds: Record<string, string>; // backup id -> id in the account
+  tagIds: string[]; // tags that restored notes can carry
+}
+export type RestoredNote = Note & { searchTokens: Record<string, number> };
+// Notes already point at the notebook and tag ids of RestoreStarted.
+export interface RestoreNotesRequest {
+  mode: RestoreMode;
+  notes: RestoredNote[];
+}
+export interface RestoreNotesResult {
+  noteIds: Record<string, string>; // backup id -> id in the account
+  skipped: number; // notes already in the account (merge only)
+}
+// Everything the restore put into the account; with 'replace' the rest is deleted. That can take
+// more than one call, so it is sent again until `done`.
+export interface RestoreFinishRequest {
+  mode: RestoreMode;
+  noteList: NoteListPreferences; // in account ids
+  noteIds: string[];
+  notebookIds: string[];
+  tagIds: string[];
+}
+export interface RestoreFinishResult {
+  done: boolean;
+  cursor: number;
+}
+export interface RestoreResult {
+  restored: number;
+  skipped: number;
+  cursor: number; // the client reloads its notes and syncs from here on
+}
+// A label that can be put on any number of notes. Notes refer to tags by id, so renaming
+// a tag only changes its (encrypted) name. `count` is the number of notes carrying it.
+export interface Tag extends Partial<NoteCiphertext> {
+  id: string;
+  name: string;
+  count: number;
+}
+// A folder for notes. Notebooks nest through `parentId`; siblings are ordered by `order`.
+// Like note titles, the name is encrypted and only filled in by the browser.
+export interface Notebook extends Partial<NoteCiphertext> {
+  id: string;
+  userId: string;
+  name: string;
+  parentId: string | null;
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+}
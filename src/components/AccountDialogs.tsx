@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { tr } from 'date-fns/locale';
+import { Loader2, Lock, ShieldCheck, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { NoteListSkeleton } from '@/components/NoteListSkeleton';
+import { api } from '@/lib/api-client';
+import { deriveLoginSecret, wrapDataKey } from '@/lib/crypto';
+import { clearNoteCache, saveCachedSession } from '@/lib/note-cache';
+import { clearPendingSaves, loadPendingSaves } from '@/lib/save-queue';
+import { useAppStore } from '@/hooks/use-app-store';
+import type { SessionInfo, TwoFactorStatus } from '@shared/types';
+
+// With two-factor authentication on, changes to the account take a code besides the password. Whether it is
+// on is read each time one of those dialogs opens.
+const useTwoFactorEnabled = (isOpen: boolean) => {
+  const [enabled, setEnabled] = useState(false);
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    api<TwoFactorStatus>('/api/user/2fa').then(status => { if (!cancelled) setEnabled(status.enabled); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [isOpen]);
+  return enabled;
+};
+const SecondFactorInput = ({ id, value, onChange }: { id: string; value: string; onChange: (value: string) => void }) => (
+  <div className="relative">
+    <ShieldCheck className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+    <Input id={id} placeholder="Doğrulama veya kurtarma kodu" value={value} onChange={e => onChange(e.target.value)} autoComplete="one-time-code" required className="pl-10" />
+  </div>
+);
+// The account dialogs are opened from the account menu in the header, which keeps track of the open one.
+export interface AccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+export function ChangePasswordDialog({ open, onOpenChange }: AccountDialogProps) {
+  const username = useAppStore(s => s.username);
+  const dataKey = useAppStore(s => s.dataKey);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [isChanging, setIsChanging] = useState(false);
+  const needsCode = useTwoFactorEnabled(open);
+  const handlePasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      toast.error('Şifreler eşleşmiyor.');
+      return;
+    }
+    if (newPassword.length < 6) {
+      toast.error('Yeni şifre en az 6 karakter olmalıdır.');
+      return;
+    }
+    if (!currentPassword || !dataKey || !username) return;
+    setIsChanging(true);
+    try {
+      const vaultKey = await wrapDataKey(dataKey, newPassword);
+      const [loginSecret, newLoginSecret] = await Promise.all([deriveLoginSecret(currentPassword, username), deriveLoginSecret(newPassword, username)]);
+      await api('/api/user/password', {
+        method: 'PUT',
+        body: JSON.stringify({ loginSecret, code, newLoginSecret, vaultKey }),
+      });
+      toast.success('Şifre başarıyla değiştirildi.', { description: 'Diğer cihazlardaki oturumlar kapatıldı.' });
+      onOpenChange(false);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setCode('');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Şifre değiştirilemedi.', { description: errorMessage });
+    } finally {
+      setIsChanging(false);
+    }
+  };
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); setCode(''); }}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Şifreyi Değiştir</DialogTitle>
+          <DialogDescription>Güvenliğiniz için yeni bir şifre belirleyin. Bu işlemden sonra mevcut şifreniz geçersiz olacaktır.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handlePasswordChange} className="grid gap-4 py-4">
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input id="current-password" type="password" placeholder="Mevcut Şifre" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} required className="pl-10" />
+          </div>
+          {needsCode && <SecondFactorInput id="password-code" value={code} onChange={setCode} />}
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input id="new-password" type="password" placeholder="Yeni Şifre" value={newPassword} onChange={e => setNewPassword(e.target.value)} required className="pl-10" />
+          </div>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input id="confirm-password" type="password" placeholder="Yeni Şifreyi Onayla" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required className="pl-10" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="secondary">İptal</Button></DialogClose>
+            <Button type="submit" disabled={isChanging}>
+              {isChanging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Değiştir
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+// A rename moves the account to a new id on the server, which rewrites every note. The local replica is kept
+// under the username, so it is dropped and the next sync loads the list again under the new name.
+export function ChangeUsernameDialog({ open, onOpenChange }: AccountDialogProps) {
+  const username = useAppStore(s => s.username);
+  const token = useAppStore(s => s.token);
+  const dataKey = useAppStore(s => s.dataKey);
+  const { renameUser, setActiveNoteId, setArchivedNotes } = useAppStore(s => s.actions);
+  const [newUsername, setNewUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [isChanging, setIsChanging] = useState(false);
+  const needsCode = useTwoFactorEnabled(open);
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !token || !dataKey || !password) return;
+    if (newUsername.trim().length < 3) {
+      toast.error('Kullanıcı adı en az 3 karakter olmalıdır.');
+      return;
+    }
+    // Queued saves were made against note versions the rename replaces, so they have to reach the server first.
+    if (loadPendingSaves(username).length > 0) {
+      toast.error('Kullanıcı adı değiştirilemedi.', { description: 'Henüz kaydedilmemiş değişiklikler var. Bağlantı kurulup kaydedildikten sonra tekrar deneyin.' });
+      return;
+    }
+    setIsChanging(true);
+    try {
+      // The login secret is derived with the username, so the server also gets the one for the new name.
+      const [loginSecret, newLoginSecret] = await Promise.all([deriveLoginSecret(password, username), deriveLoginSecret(password, newUsername.trim())]);
+      const data = await api<{ username: string }>('/api/user/username', {
+        method: 'PUT',
+        body: JSON.stringify({ loginSecret, newLoginSecret, code, username: newUsername.trim() }),
+      });
+      if (data.username.toLowerCase() !== username.toLowerCase()) {
+        setActiveNoteId(null);
+        setArchivedNotes([]);
+        await clearNoteCache(username).catch(() => {});
+      }
+      await saveCachedSession({ username: data.username, token, dataKey }).catch(() => {});
+      renameUser(data.username);
+      toast.success('Kullanıcı adı değiştirildi.', { description: 'Diğer cihazlardaki oturumlar kapatıldı; yeni kullanıcı adınızla giriş yapın.' });
+      onOpenChange(false);
+      setNewUsername('');
+      setPassword('');
+      setCode('');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Kullanıcı adı değiştirilemedi.', { description: errorMessage });
+    } finally {
+      setIsChanging(false);
+    }
+  };
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); setNewUsername(''); setPassword(''); setCode(''); }}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Kullanıcı Adını Değiştir</DialogTitle>
+          <DialogDescription>Notlarınız yeni kullanıcı adınıza taşınır. Eski kullanıcı adınız 30 gün boyunca başkası tarafından alınamaz.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleRename} className="grid gap-4 py-4">
+          <div className="relative">
+            <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input id="new-username" placeholder="Yeni Kullanıcı Adı" value={newUsername} onChange={e => setNewUsername(e.target.value)} autoComplete="username" required className="pl-10" />
+          </div>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input id="rename-password" type="password" placeholder="Şifre" value={password} onChange={e => setPassword(e.target.value)} required className="pl-10" />
+          </div>
+          {needsCode && <SecondFactorInput id="rename-code" value={code} onChange={setCode} />}
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="secondary">İptal</Button></DialogClose>
+            <Button type="submit" disabled={isChanging || !password || (needsCode && !code) || newUsername.trim() === username}>
+              {isChanging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Değiştir
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+// Closing the account deletes every note on the server, so it takes the password and the username typed out.
+export function DeleteAccountDialog({ open, onOpenChange }: AccountDialogProps) {
+  const username = useAppStore(s => s.username);
+  const { logout } = useAppStore(s => s.actions);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [code, setCode] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const needsCode = useTwoFactorEnabled(open);
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || confirmation !== username || !password) return;
+    setIsDeleting(true);
+    try {
+      const loginSecret = await deriveLoginSecret(password, username);
+      await api('/api/user', { method: 'DELETE', body: JSON.stringify({ loginSecret, code }) });
+      clearPendingSaves(username);
+      logout();
+      toast.success('Hesabınız silindi.', { description: 'Tüm notlarınız kalıcı olarak silindi.' });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Hesap silinemedi.', { description: errorMessage });
+      setIsDeleting(false);
+    }
+  };
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); setPassword(''); setConfirmation(''); setCode(''); }}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Hesabı Kalıcı Olarak Sil</DialogTitle>
+          <DialogDescription>Bu işlem geri alınamaz. Tüm notlarınız, geçmişleri, defterleriniz ve etiketleriniz silinecek ve tüm cihazlarda oturumunuz kapatılacaktır.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleDelete} className="grid gap-4 py-4">
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input id="delete-password" type="password" placeholder="Şifre" value={password} onChange={e => setPassword(e.target.value)} required className="pl-10" />
+          </div>
+          {needsCode && <SecondFactorInput id="delete-code" value={code} onChange={setCode} />}
+          <div className="grid gap-2">
+            <p className="text-sm text-muted-foreground">Onaylamak için kullanıcı adınızı yazın: <span className="font-semibold text-foreground">{username}</span></p>
+            <Input id="delete-confirmation" value={confirmation} onChange={e => setConfirmation(e.target.value)} autoComplete="off" required />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="secondary">İptal</Button></DialogClose>
+            <Button type="submit" variant="destructive" disabled={isDeleting || !password || (needsCode && !code) || confirmation !== username}>
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Hesabı sil
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+export function SessionsDialog({ open, onOpenChange }: AccountDialogProps) {
+  const [sessions, setSessions] = useState<SessionInfo[] | null>(null);
+  useEffect(() => {
+    if (!open) return;
+    setSessions(null);
+    api<SessionInfo[]>('/api/auth/sessions').then(setSessions).catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Oturumlar yüklenemedi.', { description: errorMessage });
+    });
+  }, [open]);
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      await api(`/api/auth/sessions/${sessionId}`, { method: 'DELETE' });
+      setSessions(current => (current || []).filter(s => s.id !== sessionId));
+      toast.success('Oturum kapatıldı.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Oturum kapatılamadı.', { description: errorMessage });
+    }
+  };
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Aktif Oturumlar</DialogTitle>
+          <DialogDescription>Hesabınıza giriş yapılmış cihazlar. Tanımadığınız bir oturumu kapatabilirsiniz.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-80">
+          {sessions === null ? <NoteListSkeleton /> : sessions.map(session => (
+            <div key={session.id} className="flex items-center justify-between gap-4 py-3 border-b last:border-b-0">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{session.userAgent || 'Bilinmeyen cihaz'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {session.current ? 'Bu cihaz' : `Son kullanım ${formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true, locale: tr })}`}
+                </p>
+              </div>
+              {!session.current && <Button variant="ghost" size="sm" onClick={() => handleRevoke(session.id)}>Kapat</Button>}
+            </div>
+          ))}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
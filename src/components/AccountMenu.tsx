@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { AtSign, DatabaseBackup, Download, KeyRound, Loader2, LogOut, MonitorSmartphone, ShieldCheck, Upload, User, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ChangePasswordDialog, ChangeUsernameDialog, DeleteAccountDialog, SessionsDialog } from '@/components/AccountDialogs';
+import { BackupDialog } from '@/components/BackupDialog';
+import { ImportNotesDialog } from '@/components/ImportNotesDialog';
+import { TwoFactorDialog } from '@/components/TwoFactorDialog';
+import { useNotesExport } from '@/hooks/use-notes-export';
+import type { RestoreResult } from '@shared/types';
+
+type AccountDialog = 'sessions' | 'password' | 'username' | 'two-factor' | 'import' | 'backup' | 'delete';
+interface AccountMenuProps {
+  username: string;
+  dataKey: Uint8Array;
+  onImport: React.ComponentProps<typeof ImportNotesDialog>['onImport'];
+  onRestored: (result: RestoreResult) => Promise<void>;
+  onLogout: () => void;
+}
+// Everything about the account sits in one menu; the dialogs are rendered outside it so that closing
+// the menu does not take the dialog with it.
+export function AccountMenu({ username, dataKey, onImport, onRestored, onLogout }: AccountMenuProps) {
+  const [openDialog, setOpenDialog] = useState<AccountDialog | null>(null);
+  const { handleExport, isExporting } = useNotesExport();
+  const dialogProps = (dialog: AccountDialog) => ({
+    open: openDialog === dialog,
+    onOpenChange: (open: boolean) => setOpenDialog(open ? dialog : null),
+  });
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline"><User className="mr-2 h-4 w-4" />Hesap</Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="truncate">{username}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setOpenDialog('sessions')}><MonitorSmartphone className="mr-2 h-4 w-4" />Oturumlar</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setOpenDialog('password')}><KeyRound className="mr-2 h-4 w-4" />Şifre Değiştir</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setOpenDialog('username')}><AtSign className="mr-2 h-4 w-4" />Kullanıcı Adı</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setOpenDialog('two-factor')}><ShieldCheck className="mr-2 h-4 w-4" />İki Adımlı Doğrulama</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setOpenDialog('import')}><Upload className="mr-2 h-4 w-4" />İçe Aktar</DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}Dışa Aktar
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setOpenDialog('backup')}><DatabaseBackup className="mr-2 h-4 w-4" />Yedekle</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setOpenDialog('delete')} className="text-destructive focus:text-destructive"><UserX className="mr-2 h-4 w-4" />Hesabı Sil</DropdownMenuItem>
+          <DropdownMenuItem onSelect={onLogout}><LogOut className="mr-2 h-4 w-4" />Çıkış Yap</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <SessionsDialog {...dialogProps('sessions')} />
+      <ChangePasswordDialog {...dialogProps('password')} />
+      <ChangeUsernameDialog {...dialogProps('username')} />
+      <TwoFactorDialog {...dialogProps('two-factor')} />
+      <ImportNotesDialog {...dialogProps('import')} onImport={onImport} />
+      <BackupDialog {...dialogProps('backup')} username={username} dataKey={dataKey} onRestored={onRestored} />
+      <DeleteAccountDialog {...dialogProps('delete')} />
+    </>
+  );
+}
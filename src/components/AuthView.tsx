@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { format } from 'date-fns';
+import { ArrowLeft, KeyRound, Loader2, Lock, ShieldCheck, User, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { api, ApiError, setAuthToken } from '@/lib/api-client';
+import { deriveLoginSecret, generateDataKey, wrapDataKey } from '@/lib/crypto';
+import { replaceCachedNotes, saveCachedSession, setListProgress, setSyncCursor } from '@/lib/note-cache';
+import { unlockVault } from '@/lib/vault-session';
+import { useAppStore } from '@/hooks/use-app-store';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { LoginThrottle, PasswordUpgradeChallenge, TwoFactorChallenge, VaultKey } from '@shared/types';
+
+const AuthForm = ({ isRegister = false }: { isRegister?: boolean }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  // Set once the server asks for the second factor; the login is then sent again with the code.
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [retryAt, setRetryAt] = useState<Date | null>(null);
+  const { login, setLoading } = useAppStore((s) => s.actions);
+  const isLoading = useAppStore((s) => s.isLoading);
+  const isMobile = useIsMobile();
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setTimeout(() => setRetryAt(null), Math.max(retryAt.getTime() - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [retryAt]);
+  // `codeValue` is passed by the code input when its last digit is typed, before `code` has updated.
+  const handleSubmit = async (e?: React.FormEvent, codeValue = code) => {
+    e?.preventDefault();
+    if (!username.trim() || !password.trim() || isLoading || retryAt) return;
+    if (needsCode && !codeValue.trim()) return;
+    setLoading(true);
+    try {
+      if (isRegister && password.length < 6) throw new Error('Şifre en az 6 karakter olmalıdır.');
+      // Only a secret derived from the password is sent; the password itself stays here to unwrap the data key.
+      const loginSecret = await deriveLoginSecret(password, username);
+      if (isRegister) {
+        const vaultKey = await wrapDataKey(generateDataKey(), password);
+        await api('/api/auth/register', { method: 'POST', body: JSON.stringify({ username, loginSecret, vaultKey }) });
+        toast.success('Kayıt Başarılı', { description: 'Şimdi giriş yapabilirsiniz.' });
+        setUsername('');
+        setPassword('');
+      } else {
+        type LoginResult = { token: string; syncCursor: number; username: string; vaultKey: VaultKey | null } | TwoFactorChallenge | PasswordUpgradeChallenge;
+        const sendLogin = (withPassword: boolean) => api<LoginResult>('/api/auth/login', {
+          method: 'POST',
+          body: JSON.stringify({ username, loginSecret, ...(withPassword && { password }), ...(needsCode && { code: codeValue }) }),
+        });
+        // An account from before login secrets takes the password one last time, so the server can switch it over.
+        let data = await sendLogin(false);
+        if ('passwordUpgradeRequired' in data) data = await sendLogin(true);
+        if ('passwordUpgradeRequired' in data) throw new Error('Giriş tamamlanamadı.');
+        if ('twoFactorRequired' in data) {
+          setNeedsCode(true);
+          return;
+        }
+        // The token is needed while unlocking, since legacy accounts upload a key.
+        setAuthToken(data.token);
+        try {
+          const dataKey = await unlockVault(password, data.vaultKey);
+          // The notes themselves are loaded page by page by the note list.
+          login(data.username, data.token, dataKey, { notes: [], previews: {}, cursor: null, complete: false }, isMobile);
+          // Without the local replica the app only loses its fast startup, so caching errors are not fatal.
+          saveCachedSession({ username: data.username, token: data.token, dataKey })
+            .then(() => replaceCachedNotes(data.username, []))
+            .then(() => setListProgress(data.username, { cursor: null, complete: false }))
+            .then(() => setSyncCursor(data.username, data.syncCursor))
+            .catch(() => {});
+        } catch (error) {
+          setAuthToken(null);
+          throw error;
+        }
+        toast.success('Giriş Başarılı', { description: 'Notlarınız başarıyla yüklendi.' });
+      }
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 429) {
+        const throttle = error.data as LoginThrottle | undefined;
+        if (throttle?.retryAt) setRetryAt(new Date(throttle.retryAt));
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error(isRegister ? 'Kayıt Başarısız' : 'Giriş Başarısız', { description: errorMessage });
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+  const throttleNotice = retryAt && (
+    <p className="text-sm text-destructive text-center" role="alert">
+      Çok fazla başarısız deneme yapıldı. {format(retryAt, 'HH:mm:ss')} itibarıyla tekrar deneyebilirsiniz.
+    </p>
+  );
+  if (needsCode) {
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <p className="text-sm text-muted-foreground text-center">
+          {useRecoveryCode ? 'Kurtarma kodlarınızdan birini girin. Her kod bir kez kullanılabilir.' : 'Doğrulama uygulamanızdaki 6 haneli kodu girin.'}
+        </p>
+        {useRecoveryCode ? (
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input id="login-recovery-code" placeholder="Kurtarma kodu" value={code} onChange={(e) => setCode(e.target.value)} autoComplete="off" required autoFocus className="pl-10 h-12 text-base" disabled={isLoading} />
+          </div>
+        ) : (
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={code} onChange={setCode} onComplete={(value: string) => handleSubmit(undefined, value)} disabled={isLoading} autoFocus>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, i) => <InputOTPSlot key={i} index={i} className="h-12 w-12 text-lg" />)}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+        <Button type="submit" className="w-full h-12 text-base font-semibold transition-all duration-200 ease-in-out hover:shadow-md active:scale-95" disabled={isLoading || !!retryAt || !code.trim()}>
+          {isLoading ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : 'Doğrula'}
+        </Button>
+        <div className="flex justify-between text-sm">
+          <Button type="button" variant="link" className="px-0" onClick={() => { setNeedsCode(false); setCode(''); setUseRecoveryCode(false); }} disabled={isLoading}>
+            <ArrowLeft className="mr-1 h-4 w-4" />Geri
+          </Button>
+          <Button type="button" variant="link" className="px-0" onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); }} disabled={isLoading}>
+            {useRecoveryCode ? 'Doğrulama kodu kullan' : 'Kurtarma kodu kullan'}
+          </Button>
+        </div>
+        {throttleNotice}
+      </form>
+    );
+  }
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="relative">
+        <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input id={isRegister ? 'reg-username' : 'login-username'} type="text" placeholder="Kullanıcı Adı" value={username} onChange={(e) => setUsername(e.target.value)} required className="pl-10 h-12 text-base" disabled={isLoading} />
+      </div>
+      <div className="relative">
+        <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input id={isRegister ? 'reg-password' : 'login-password'} type="password" placeholder="Şifre" value={password} onChange={(e) => setPassword(e.target.value)} required className="pl-10 h-12 text-base" disabled={isLoading} />
+      </div>
+      <Button type="submit" className="w-full h-12 text-base font-semibold transition-all duration-200 ease-in-out hover:shadow-md active:scale-95" disabled={isLoading || !!retryAt}>
+        {isLoading ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : (isRegister ? 'Kayıt Ol' : 'Giriş Yap')}
+      </Button>
+      {throttleNotice}
+    </form>
+  );
+};
+// The signed-out screen: logging in and creating an account.
+export function AuthView() {
+  return (
+    <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 0.95 }} transition={{ duration: 0.3, ease: 'easeInOut' }} className="w-full max-w-sm">
+      <Card className="bg-card/80 backdrop-blur-sm border-border/50 shadow-lg">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4"><div className="p-3 bg-blue-500/10 rounded-full border border-blue-500/20"><ShieldCheck className="w-8 h-8 text-blue-500" /></div></div>
+          <CardTitle className="text-3xl font-display">VaultNote</CardTitle>
+          <CardDescription>Güvenli not defterinize erişin veya yeni bir hesap oluşturun.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login" className="w-full">
+            <TabsList className="grid w-full grid-cols-2"><TabsTrigger value="login"><Lock className="w-4 h-4 mr-2" />Giriş Yap</TabsTrigger><TabsTrigger value="register"><UserPlus className="w-4 h-4 mr-2" />Kayıt Ol</TabsTrigger></TabsList>
+            <TabsContent value="login" className="pt-6"><AuthForm /></TabsContent>
+            <TabsContent value="register" className="pt-6"><AuthForm isRegister /></TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
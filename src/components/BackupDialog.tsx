@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { api } from '@/lib/api-client';
+import { createBackupFile, openBackupFile, prepareRestore } from '@/lib/backup';
+import type { AccountBackup, RestoreFinishRequest, RestoreFinishResult, RestoreMode, RestoreNotesResult, RestoreResult, RestoreStarted } from '@shared/types';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const RESTORE_BATCH_SIZE = 50;
+// As on the server; tags beyond it are dropped from a restored note.
+const MAX_TAGS_PER_NOTE = 50;
+
+interface BackupDialogProps {
+  username: string;
+  dataKey: Uint8Array;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (result: RestoreResult) => Promise<void>;
+}
+
+// Downloads the whole account as one file encrypted with a passphrase, and restores such a file.
+// Unlike the Markdown export, a backup brings back notebooks, tags, archive, trash and the note order.
+export function BackupDialog({ username, dataKey, open, onOpenChange, onRestored }: BackupDialogProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setFile(null);
+    setMode('merge');
+  };
+
+  const handleBackup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Parola en az ${MIN_PASSPHRASE_LENGTH} karakter olmalıdır.`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      toast.error('Parolalar eşleşmiyor.');
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const account = await api<AccountBackup>('/api/user/backup');
+      const url = URL.createObjectURL(await createBackupFile(dataKey, account, passphrase));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vaultnote-yedek-${username}-${account.createdAt.slice(0, 10)}.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      toast.success('Yedek indirildi.', { description: 'Parolayı unutmayın; yedek onsuz açılamaz.' });
+      onOpenChange(false);
+      reset();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Yedek alınamadı.', { description: errorMessage });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !passphrase) return;
+    setIsWorking(true);
+    try {
+      const { request, notes, noteList } = await prepareRestore(await openBackupFile(file, passphrase), dataKey, mode);
+      const started = await api<RestoreStarted>('/api/user/restore', { method: 'POST', body: JSON.stringify(request) });
+      const usableTags = new Set(started.tagIds);
+      const noteIds: Record<string, string> = {};
+      let skipped = 0;
+      for (let start = 0; start < notes.length; start += RESTORE_BATCH_SIZE) {
+        const batch = notes.slice(start, start + RESTORE_BATCH_SIZE).map(note => ({
+          ...note,
+          notebookId: note.notebookId ? started.notebookIds[note.notebookId] ?? null : null,
+          tags: (note.tags || []).filter(id => usableTags.has(id)).slice(0, MAX_TAGS_PER_NOTE),
+        }));
+        const restored = await api<RestoreNotesResult>('/api/user/restore/notes', { method: 'POST', body: JSON.stringify({ mode, notes: batch }) });
+        Object.assign(noteIds, restored.noteIds);
+        skipped += restored.skipped;
+      }
+      const finish: RestoreFinishRequest = {
+        mode,
+        noteList: { sort: noteList.sort, order: noteList.order.map(id => noteIds[id]).filter((id): id is string => !!id) },
+        noteIds: Object.values(noteIds),
+        notebookIds: Object.values(started.notebookIds),
+        tagIds: started.tagIds,
+      };
+      let finished: RestoreFinishResult;
+      do {
+        finished = await api<RestoreFinishResult>('/api/user/restore/finish', { method: 'POST', body: JSON.stringify(finish) });
+      } while (!finished.done);
+      const result: RestoreResult = { restored: Object.keys(noteIds).length, skipped, cursor: finished.cursor };
+      await onRestored(result);
+      toast.success('Yedek geri yüklendi.', {
+        description: result.skipped > 0 ? `${result.restored} not geri yüklendi, ${result.skipped} not atlandı.` : `${result.restored} not geri yüklendi.`,
+      });
+      onOpenChange(false);
+      reset();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Yedek geri yüklenemedi.', { description: errorMessage });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!isWorking) { onOpenChange(next); reset(); } }}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Hesap Yedeği</DialogTitle>
+          <DialogDescription>Tüm notlarınız, defterleriniz ve etiketleriniz tek bir dosyada, seçtiğiniz bir parolayla şifrelenir.</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="backup" onValueChange={reset}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="backup">Yedek al</TabsTrigger>
+            <TabsTrigger value="restore">Geri yükle</TabsTrigger>
+          </TabsList>
+          <TabsContent value="backup">
+            <form onSubmit={handleBackup} className="grid gap-4 py-4">
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input type="password" placeholder="Yedek parolası" value={passphrase} onChange={e => setPassphrase(e.target.value)} required className="pl-10" />
+              </div>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input type="password" placeholder="Parolayı onayla" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} required className="pl-10" />
+              </div>
+              <Button type="submit" disabled={isWorking}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Yedeği indir
+              </Button>
+            </form>
+          </TabsContent>
+          <TabsContent value="restore">
+            <form onSubmit={handleRestore} className="grid gap-4 py-4">
+              <Input type="file" accept=".json,application/json" onChange={e => setFile(e.target.files?.[0] ?? null)} required />
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input type="password" placeholder="Yedek parolası" value={passphrase} onChange={e => setPassphrase(e.target.value)} required className="pl-10" />
+              </div>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+                  <Label htmlFor="restore-merge" className="font-normal leading-snug">Birleştir: mevcut notlar kalır, yedekte olup hesapta olmayanlar eklenir.</Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+                  <Label htmlFor="restore-replace" className="font-normal leading-snug">Değiştir: hesaptaki tüm notlar, defterler ve etiketler silinir, yerine yedek gelir.</Label>
+                </div>
+              </RadioGroup>
+              <Button type="submit" variant={mode === 'replace' ? 'destructive' : 'default'} disabled={isWorking || !file}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {mode === 'replace' ? 'Hesabı yedekle değiştir' : 'Geri yükle'}
+              </Button>
+            </form>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,517 @@
+import React, { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { tr } from 'date-fns/locale';
+import { AlertCircle, Archive, ArchiveRestore, ArrowDownToLine, ArrowLeft, ArrowUpDown, Check, CloudOff, Columns2, Eye, FileText, History, ListChecks, Loader2, Pencil, Pin, PinOff, PlusCircle, RotateCcw, Save, Search, Star, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuLabel, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { AccountMenu } from '@/components/AccountMenu';
+import { MarkdownPreview } from '@/components/MarkdownPreview';
+import { NoteConflictDialog } from '@/components/NoteConflictDialog';
+import { NoteHistoryPanel } from '@/components/NoteHistoryPanel';
+import { NoteListSkeleton } from '@/components/NoteListSkeleton';
+import { NotebookTree } from '@/components/NotebookTree';
+import { PlainTextPreview } from '@/components/PlainTextPreview';
+import { SortableNoteList } from '@/components/SortableNoteList';
+import { TagEditor } from '@/components/TagEditor';
+import { TagManagerDialog } from '@/components/TagManagerDialog';
+import { api } from '@/lib/api-client';
+import { checklistProgress } from '@/lib/checklist';
+import { flattenNotebooks, notebookSubtree } from '@/lib/notebooks';
+import { sortNotes } from '@/lib/note-order';
+import { buildSnippet } from '@/lib/search';
+import type { SnippetPart } from '@/lib/search';
+import { cn } from '@/lib/utils';
+import { useAppStore } from '@/hooks/use-app-store';
+import type { NoteView, SaveStatus } from '@/hooks/use-app-store';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useNoteActions } from '@/hooks/use-note-actions';
+import { useNoteEditor } from '@/hooks/use-note-editor';
+import { useNoteSearch } from '@/hooks/use-note-search';
+import { useNoteSync } from '@/hooks/use-note-sync';
+import { useNotebookActions, useTagActions } from '@/hooks/use-notebook-tag-actions';
+import type { Note, NoteSort, Tag } from '@shared/types';
+
+const SaveStatusIndicator = ({ status, hasUnsavedChanges }: { status: SaveStatus; hasUnsavedChanges: boolean }) => {
+  if (status === 'saving') return <span className="flex items-center text-xs text-muted-foreground"><Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />Kaydediliyor...</span>;
+  if (status === 'offline') return <span className="flex items-center text-xs text-amber-600 dark:text-amber-400" title="Bağlantı geldiğinde kaydedilecek"><CloudOff className="mr-1 h-3.5 w-3.5" />Çevrimdışı</span>;
+  if (status === 'failed') return <span className="flex items-center text-xs text-destructive"><AlertCircle className="mr-1 h-3.5 w-3.5" />Kaydedilemedi</span>;
+  if (hasUnsavedChanges) return null;
+  return <span className="flex items-center text-xs text-muted-foreground"><Check className="mr-1 h-3.5 w-3.5" />Kaydedildi</span>;
+};
+type EditorView = 'edit' | 'split' | 'preview';
+// Matches the server, which purges notes this long after they were moved to the trash.
+const TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+const NOTE_SORT_OPTIONS: { value: NoteSort; label: string }[] = [
+  { value: 'updated', label: 'Son düzenleme' },
+  { value: 'created', label: 'Oluşturma tarihi' },
+  { value: 'title', label: 'Başlık (A-Z)' },
+  { value: 'manual', label: 'Elle sıralama' },
+];
+const NO_NOTEBOOK = 'none'; // Select value for "not in a notebook"; Radix does not allow an empty value
+const HighlightedText = ({ parts }: { parts: SnippetPart[] }) => (
+  <>
+    {parts.map((part, i) => part.highlight
+      ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-500/40 text-foreground rounded-sm">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+  </>
+);
+// Loads the next page of the note list once the end of the list scrolls into view.
+// The button is there for when a page failed to load, e.g. while offline.
+const LoadMoreTrigger = ({ onLoad }: { onLoad: () => Promise<unknown> }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      await onLoad();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onLoad]);
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver((entries) => { if (entries.some(e => e.isIntersecting)) load(); });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [load]);
+  return (
+    <div ref={ref} className="p-2 flex justify-center">
+      <Button variant="ghost" size="sm" className="text-xs text-muted-foreground" onClick={load} disabled={isLoading}>
+        {isLoading ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : null}Daha fazla not yükle
+      </Button>
+    </div>
+  );
+};
+// The signed-in screen: notebooks, the note list and the editor, with the account menu in the header.
+export function DashboardView() {
+  const username = useAppStore(s => s.username);
+  const dataKey = useAppStore(s => s.dataKey);
+  const notes = useAppStore(s => s.notes);
+  const notePreviews = useAppStore(s => s.notePreviews);
+  const listProgress = useAppStore(s => s.listProgress);
+  const archivedNotes = useAppStore(s => s.archivedNotes);
+  const notebooks = useAppStore(s => s.notebooks);
+  const selectedNotebookId = useAppStore(s => s.selectedNotebookId);
+  const tags = useAppStore(s => s.tags);
+  const selectedTagIds = useAppStore(s => s.selectedTagIds);
+  const favoritesOnly = useAppStore(s => s.favoritesOnly);
+  const noteList = useAppStore(s => s.noteList);
+  const noteView = useAppStore(s => s.noteView);
+  const activeNoteId = useAppStore(s => s.activeNoteId);
+  const saveStatus = useAppStore(s => s.saveStatus);
+  const isNotesLoading = useAppStore(s => s.isNotesLoading);
+  const { logout, setSelectedNotebookId, toggleTagFilter, toggleFavoritesOnly, setNoteView, finishNotesLoading } = useAppStore(s => s.actions);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [preferredView, setPreferredView] = useState<EditorView>('split');
+  const isMobile = useIsMobile();
+  // The notebook tree is only shown on desktop, so the mobile list is never filtered by it.
+  const notebookFilter = isMobile ? null : selectedNotebookId;
+  const {
+    activeNote, isActivePreview, currentTitle, setCurrentTitle, currentContent, setCurrentContent, hasUnsavedChanges, isSaving, conflict,
+    flushPendingSaves, loadIntoEditor, handleSelectNote, handleKeepLocal, handleUseServer, handleCancelConflict, handleUpdateNote,
+    handleRestoreRevision, handleToggleTask, handleMoveCompletedToBottom,
+  } = useNoteEditor();
+  // Keeps typing responsive while the preview of a long note re-renders.
+  const previewContent = useDeferredValue(currentContent);
+  const { syncNotes, loadNextPage, fetchNote, refreshNotebooks, refreshTags, isArchiveLoading, isLoadingAllNotes, handleRestored } = useNoteSync({ isEditorDirty: hasUnsavedChanges, flushPendingSaves, loadIntoEditor });
+  const { searchQuery, setSearchQuery, searchTerms, searchResults, isSearching } = useNoteSearch(fetchNote);
+  const {
+    handleCreateNote, handleDeleteNote, handleRestoreNote, handlePermanentDelete, handleEmptyTrash, applyNoteMetadata, handleSetArchived,
+    handleMoveNote, handleToggleNoteFlag, handleSetNoteFormat, handleImportNotes, changeNoteList, handleReorderNotes,
+  } = useNoteActions({ activeNote, notebookFilter, refreshTags });
+  const { handleSetNoteTags, handleCreateTag, handleRenameTag, handleMergeTag, handleDeleteTag } = useTagActions({ activeNote, applyNoteMetadata, refreshTags, syncNotes });
+  const { handleCreateNotebook, handleRenameNotebook, handleMoveNotebook, handleReorderNotebook, handleDeleteNotebook } = useNotebookActions({ refreshNotebooks, syncNotes });
+  useEffect(() => {
+    const timer = setTimeout(() => { finishNotesLoading(); }, 500);
+    return () => clearTimeout(timer);
+  }, [finishNotesLoading]);
+  const handleLogout = async () => {
+    try {
+      await api('/api/auth/logout', { method: 'POST' });
+    } catch {
+      // The session is dropped locally even if the server could not be reached.
+    }
+    logout();
+  };
+  const visibleNotes = useMemo(() => {
+    const inView = noteView === 'archive' ? archivedNotes : notes.filter(n => (noteView === 'trash') === Boolean(n.deletedAt));
+    const byId = new Map(inView.map(n => [n.id, n]));
+    let listed = searchResults ? searchResults.map(r => byId.get(r.noteId)).filter((n): n is Note => !!n) : inView;
+    // The archive and the trash are only searched; their notes keep their notebook and tags for when they return.
+    if (noteView !== 'notes') return listed;
+    if (notebookFilter) {
+      // A notebook shows its own notes and those of the notebooks nested inside it.
+      const subtree = notebookSubtree(notebooks, notebookFilter);
+      listed = listed.filter(n => n.notebookId && subtree.has(n.notebookId));
+    }
+    if (favoritesOnly) listed = listed.filter(n => n.favorite);
+    return listed.filter(n => selectedTagIds.every(id => n.tags?.includes(id)));
+  }, [notes, archivedNotes, notebooks, notebookFilter, selectedTagIds, favoritesOnly, searchResults, noteView]);
+  // Pinned notes keep the order they were pinned in, so saving one does not move it.
+  // Search results are shown in rank order without sections.
+  const pinnedNotes = useMemo(
+    () => (searchResults || noteView !== 'notes' ? [] : visibleNotes.filter(n => n.pinned).sort((a, b) => (a.pinnedAt ?? '').localeCompare(b.pinnedAt ?? ''))),
+    [visibleNotes, searchResults, noteView]
+  );
+  // The archive and the trash list the most recently archived or deleted notes first.
+  const otherNotes = useMemo(() => {
+    if (searchResults) return visibleNotes;
+    if (noteView === 'archive') return [...visibleNotes].sort((a, b) => (b.archivedAt ?? '').localeCompare(a.archivedAt ?? ''));
+    if (noteView === 'trash') return [...visibleNotes].sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+    return sortNotes(visibleNotes.filter(n => !n.pinned), noteList);
+  }, [visibleNotes, searchResults, noteList, noteView]);
+  const activeNoteCount = useMemo(() => notes.filter(n => !n.deletedAt).length, [notes]);
+  const tagsById = useMemo(() => new Map(tags.map(t => [t.id, t])), [tags]);
+  const noteCounts = useMemo(() => {
+    const counts = new Map<string | null, number>();
+    for (const note of notes) if (!note.deletedAt) counts.set(note.notebookId ?? null, (counts.get(note.notebookId ?? null) ?? 0) + 1);
+    return counts;
+  }, [notes]);
+  const renderNoteItem = (note: Note) => {
+    const preview = notePreviews[note.id];
+    const text = preview ? preview.excerpt : note.content;
+    const titleParts = searchResults ? buildSnippet(note.title, searchTerms) : null;
+    const contentParts = searchResults ? buildSnippet(text, searchTerms) : null;
+    const progress = preview ? preview.tasks : checklistProgress(note.content);
+    if (note.deletedAt || note.archived) {
+      return (
+        <div key={note.id} onClick={() => handleSelectNote(note.id)} className={cn("p-4 border-b cursor-pointer hover:bg-muted/50 transition-colors", activeNoteId === note.id && "bg-muted")}>
+          <div className="flex items-start justify-between">
+            <div className="truncate flex-grow">
+              <p className="font-semibold truncate">{titleParts ? <HighlightedText parts={titleParts} /> : note.title}</p>
+              <p className="text-sm text-muted-foreground truncate mt-1">{contentParts ? <HighlightedText parts={contentParts} /> : (text || 'İçerik yok')}</p>
+            </div>
+            {note.deletedAt ? (
+              <>
+                <Button variant="ghost" size="icon" className="flex-shrink-0 h-8 w-8 ml-2" onClick={e => { e.stopPropagation(); handleRestoreNote(note.id); }} title="Geri yükle">
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild><Button variant="ghost" size="icon" className="flex-shrink-0 h-8 w-8" onClick={e => e.stopPropagation()} title="Kalıcı olarak sil"><Trash2 className="h-4 w-4 text-destructive" /></Button></AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader><AlertDialogTitle>Notu Kalıcı Olarak Silmek İstediğinizden Emin misiniz?</AlertDialogTitle><AlertDialogDescription>Bu işlem geri alınamaz. Not ve geçmişi kalıcı olarak silinecektir.</AlertDialogDescription></AlertDialogHeader>
+                    <AlertDialogFooter><AlertDialogCancel>İptal</AlertDialogCancel><AlertDialogAction onClick={() => handlePermanentDelete(note.id)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">Kalıcı olarak sil</AlertDialogAction></AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            ) : (
+              <>
+                <Button variant="ghost" size="icon" className="flex-shrink-0 h-8 w-8 ml-2" onClick={e => { e.stopPropagation(); handleSetArchived(note.id, false); }} title="Arşivden çıkar">
+                  <ArchiveRestore className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="flex-shrink-0 h-8 w-8" onClick={e => { e.stopPropagation(); handleDeleteNote(note.id); }} title="Çöpe taşı">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            {note.deletedAt
+              ? `${formatDistanceToNow(new Date(new Date(note.deletedAt).getTime() + TRASH_RETENTION_MS), { addSuffix: true, locale: tr })} kalıcı olarak silinecek`
+              : `${formatDistanceToNow(new Date(note.archivedAt ?? note.updatedAt), { addSuffix: true, locale: tr })} arşivlendi`}
+          </p>
+        </div>
+      );
+    }
+    return (
+      <div key={note.id} onClick={() => handleSelectNote(note.id)} className={cn("p-4 border-b cursor-pointer hover:bg-muted/50 transition-colors", activeNoteId === note.id && "bg-muted")}>
+        <div className="flex items-start justify-between">
+          <div className="truncate flex-grow">
+            <p className="font-semibold truncate">{titleParts ? <HighlightedText parts={titleParts} /> : note.title}</p>
+            <p className="text-sm text-muted-foreground truncate mt-1">{contentParts ? <HighlightedText parts={contentParts} /> : (text || 'İçerik yok')}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="flex-shrink-0 h-8 w-8 ml-2" onClick={e => { e.stopPropagation(); handleToggleNoteFlag(note, 'pinned'); }} title={note.pinned ? 'Sabitlemeyi kaldır' : 'Sabitle'}>
+            {note.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4 text-muted-foreground" />}
+          </Button>
+          <Button variant="ghost" size="icon" className="flex-shrink-0 h-8 w-8" onClick={e => { e.stopPropagation(); handleToggleNoteFlag(note, 'favorite'); }} title={note.favorite ? 'Favorilerden çıkar' : 'Favorilere ekle'}>
+            <Star className={cn("h-4 w-4", note.favorite ? "fill-yellow-400 text-yellow-500" : "text-muted-foreground")} />
+          </Button>
+          <Button variant="ghost" size="icon" className="flex-shrink-0 h-8 w-8" onClick={e => { e.stopPropagation(); handleSetArchived(note.id, true); }} title="Arşivle">
+            <Archive className="h-4 w-4 text-muted-foreground" />
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild><Button variant="ghost" size="icon" className="flex-shrink-0 h-8 w-8" onClick={e => e.stopPropagation()}><Trash2 className="h-4 w-4 text-destructive" /></Button></AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader><AlertDialogTitle>Notu Silmek İstediğinizden Emin misiniz?</AlertDialogTitle><AlertDialogDescription>Not çöp kutusuna taşınacak ve {TRASH_RETENTION_DAYS} gün sonra kalıcı olarak silinecek. O zamana kadar geri yükleyebilirsiniz.</AlertDialogDescription></AlertDialogHeader>
+              <AlertDialogFooter><AlertDialogCancel>İptal</AlertDialogCancel><AlertDialogAction onClick={() => handleDeleteNote(note.id)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">Çöpe taşı</AlertDialogAction></AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+        {progress.total > 0 && (
+          <Badge variant={progress.done === progress.total ? 'default' : 'outline'} className="mt-2 gap-1 px-1.5 py-0 text-[10px] font-normal">
+            <ListChecks className="h-3 w-3" />{progress.total} görevden {progress.done} tamamlandı
+          </Badge>
+        )}
+        {(note.tags?.length ?? 0) > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {note.tags?.map(id => tagsById.get(id)).filter((t): t is Tag => !!t).map(tag => (
+              <Badge key={tag.id} variant="secondary" className="px-1.5 py-0 text-[10px] font-normal">{tag.name}</Badge>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground mt-2">{formatDistanceToNow(new Date(note.updatedAt), { addSuffix: true, locale: tr })}</p>
+      </div>
+    );
+  };
+  const NoteListComponent = () => (
+    <div className="flex flex-col h-full bg-background">
+      <div className="p-4 border-b flex justify-between items-center">
+        <h2 className="text-lg font-semibold truncate">{noteView === 'trash' ? 'Çöp Kutusu' : noteView === 'archive' ? 'Arşiv' : notebooks.find(n => n.id === notebookFilter)?.name ?? 'Notlarım'}</h2>
+        {noteView === 'archive' ? null : noteView === 'trash' ? (
+          <AlertDialog>
+            <AlertDialogTrigger asChild><Button variant="outline" size="sm" disabled={notes.length === activeNoteCount}><Trash2 className="mr-2 h-4 w-4 text-destructive" />Çöpü boşalt</Button></AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader><AlertDialogTitle>Çöp Kutusu Boşaltılsın mı?</AlertDialogTitle><AlertDialogDescription>Bu işlem geri alınamaz. Çöp kutusundaki tüm notlar kalıcı olarak silinecektir.</AlertDialogDescription></AlertDialogHeader>
+              <AlertDialogFooter><AlertDialogCancel>İptal</AlertDialogCancel><AlertDialogAction onClick={handleEmptyTrash} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">Boşalt</AlertDialogAction></AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        ) : (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Sırala"><ArrowUpDown className="h-4 w-4" /></Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Sıralama</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={noteList.sort} onValueChange={(sort) => changeNoteList({ sort: sort as NoteSort })}>
+                  {NOTE_SORT_OPTIONS.map(option => <DropdownMenuRadioItem key={option.value} value={option.value}>{option.label}</DropdownMenuRadioItem>)}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant={favoritesOnly ? 'secondary' : 'ghost'} size="icon" className="h-8 w-8" onClick={toggleFavoritesOnly} title={favoritesOnly ? 'Tüm notları göster' : 'Yalnızca favoriler'}>
+              <Star className={cn("h-4 w-4", favoritesOnly && "fill-yellow-400 text-yellow-500")} />
+            </Button>
+            <Button size="sm" onClick={handleCreateNote}><PlusCircle className="mr-2 h-4 w-4" />Yeni</Button>
+          </div>
+        )}
+      </div>
+      <div className="px-2 pt-2">
+        <ToggleGroup type="single" size="sm" className="justify-start" value={noteView} onValueChange={(value) => { if (value) setNoteView(value as NoteView); }}>
+          <ToggleGroupItem value="notes" className="text-xs"><FileText className="mr-1 h-4 w-4" />Notlar</ToggleGroupItem>
+          <ToggleGroupItem value="archive" className="text-xs"><Archive className="mr-1 h-4 w-4" />Arşiv</ToggleGroupItem>
+          <ToggleGroupItem value="trash" className="text-xs"><Trash2 className="mr-1 h-4 w-4" />Çöp Kutusu</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      <div className="p-2 border-b">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="Notlarda ara..." className="pl-8 pr-8" />
+          {isSearching
+            ? <Loader2 className="absolute right-2.5 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+            : searchQuery && <button type="button" onClick={() => setSearchQuery('')} className="absolute right-2.5 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground" title="Aramayı temizle"><X className="h-4 w-4" /></button>}
+        </div>
+      </div>
+      {tags.length > 0 && noteView === 'notes' && (
+        <div className="px-2 py-1.5 border-b flex items-start gap-1">
+          <div className="flex flex-wrap gap-1 flex-grow">
+            {[...tags].sort((a, b) => a.name.localeCompare(b.name, 'tr')).map(tag => (
+              <Badge
+                key={tag.id}
+                variant={selectedTagIds.includes(tag.id) ? 'default' : 'outline'}
+                className="cursor-pointer select-none"
+                onClick={() => toggleTagFilter(tag.id)}
+              >
+                {tag.name}
+              </Badge>
+            ))}
+          </div>
+          <TagManagerDialog tags={tags} onRename={handleRenameTag} onMerge={handleMergeTag} onDelete={handleDeleteTag} />
+        </div>
+      )}
+      <ScrollArea className="flex-grow">
+        {noteView === 'trash' && !searchResults && visibleNotes.length === 0 && <p className="p-4 text-sm text-muted-foreground text-center">Çöp kutusu boş.</p>}
+        {noteView === 'archive' && !isArchiveLoading && !searchResults && visibleNotes.length === 0 && <p className="p-4 text-sm text-muted-foreground text-center">Arşiv boş.</p>}
+        {(searchResults || (noteView === 'notes' && (selectedTagIds.length > 0 || favoritesOnly))) && visibleNotes.length === 0 && <p className="p-4 text-sm text-muted-foreground text-center">Eşleşen not bulunamadı.</p>}
+        {isNotesLoading || (noteView === 'archive' ? isArchiveLoading : isLoadingAllNotes && !searchResults) ? <NoteListSkeleton /> : (
+          <>
+            {pinnedNotes.length > 0 && <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Sabitlenenler</p>}
+            {pinnedNotes.map(renderNoteItem)}
+            {pinnedNotes.length > 0 && otherNotes.length > 0 && <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Diğer Notlar</p>}
+            {/* Search results keep their rank order, so notes can only be dragged while not searching. */}
+            {noteList.sort === 'manual' && noteView === 'notes' && !searchResults
+              ? <SortableNoteList notes={otherNotes} renderNote={renderNoteItem} onReorder={handleReorderNotes} />
+              : otherNotes.map(renderNoteItem)}
+            {/* Keyed by the cursor, so each page gets a fresh observer. */}
+            {noteView !== 'archive' && !listProgress.complete && <LoadMoreTrigger key={listProgress.cursor ?? ''} onLoad={loadNextPage} />}
+          </>
+        )}
+      </ScrollArea>
+    </div>
+  );
+  // Markdown notes can show a rendered preview; plain-text notes only get one (with clickable
+  // checkboxes) when they contain a checklist. Everything else shows the bare editor.
+  const isMarkdown = activeNote?.format === 'markdown';
+  const editorChecklist = checklistProgress(currentContent);
+  const canPreview = isMarkdown || editorChecklist.total > 0;
+  const editorView: EditorView = !canPreview ? 'edit' : isMobile && preferredView === 'split' ? 'edit' : preferredView;
+  const contentEditor = (
+    <Textarea value={currentContent} onChange={e => setCurrentContent(e.target.value)} placeholder="Notunuzu buraya yazın..." className="flex-grow resize-none border-0 focus-visible:ring-0 focus-visible:ring-offset-0 p-4 text-base" />
+  );
+  const contentPreview = (
+    <ScrollArea className="flex-grow min-h-0">
+      {isMarkdown
+        ? <MarkdownPreview content={previewContent} className="p-4" onToggleTask={handleToggleTask} />
+        : <PlainTextPreview content={previewContent} className="p-4" onToggleTask={handleToggleTask} />}
+    </ScrollArea>
+  );
+  // Archived notes and notes in the trash are shown read-only until they are brought back.
+  const ReadOnlyNoteComponent = (note: Note) => (
+    <div className="flex flex-col h-full bg-background">
+      <div className="p-4 border-b flex items-center justify-between gap-4">
+        {isMobile && <Button variant="ghost" size="icon" onClick={() => handleSelectNote(null)}><ArrowLeft className="h-5 w-5" /></Button>}
+        <h2 className="text-lg font-semibold truncate flex-grow">{note.title}</h2>
+        {note.deletedAt
+          ? <Button onClick={() => handleRestoreNote(note.id)}><RotateCcw className="mr-2 h-4 w-4" />Geri yükle</Button>
+          : <Button onClick={() => handleSetArchived(note.id, false)}><ArchiveRestore className="mr-2 h-4 w-4" />Arşivden çıkar</Button>}
+      </div>
+      <div className="px-4 py-2 border-b text-sm text-muted-foreground bg-muted/50">
+        {note.deletedAt
+          ? `Bu not çöp kutusunda ve ${formatDistanceToNow(new Date(new Date(note.deletedAt).getTime() + TRASH_RETENTION_MS), { addSuffix: true, locale: tr })} kalıcı olarak silinecek.`
+          : 'Bu not arşivde. Düzenlemek için arşivden çıkarın.'}
+      </div>
+      <Textarea value={note.content} readOnly className="flex-grow resize-none border-0 focus-visible:ring-0 focus-visible:ring-offset-0 p-4 text-base" />
+    </div>
+  );
+  const EditorComponent = () => (
+    activeNote && isActivePreview ? (
+      <div className="flex flex-col items-center justify-center h-full text-muted-foreground bg-background">
+        <Loader2 className="w-8 h-8 mb-4 animate-spin" />
+        <p>Not yükleniyor...</p>
+      </div>
+    ) : activeNote && (activeNote.deletedAt || activeNote.archived) ? ReadOnlyNoteComponent(activeNote) : activeNote ? (
+      <div className="flex flex-col h-full bg-background">
+        <div className="p-4 border-b flex items-center justify-between gap-4">
+          {isMobile && <Button variant="ghost" size="icon" onClick={() => handleSelectNote(null)}><ArrowLeft className="h-5 w-5" /></Button>}
+          <div className="flex items-center flex-grow min-w-0">
+            <Input value={currentTitle} onChange={e => setCurrentTitle(e.target.value)} className="text-lg font-semibold border-0 focus-visible:ring-0 focus-visible:ring-offset-0 flex-grow" placeholder="Not Başlığı" />
+            <AnimatePresence>
+              {hasUnsavedChanges && (
+                <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} exit={{ scale: 0 }} className="w-2.5 h-2.5 bg-blue-500 rounded-full ml-2 flex-shrink-0" title="Kaydedilmemiş değişiklikler"></motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+          <SaveStatusIndicator status={saveStatus} hasUnsavedChanges={hasUnsavedChanges} />
+          <Select value={activeNote.notebookId ?? NO_NOTEBOOK} onValueChange={(value) => handleMoveNote(value === NO_NOTEBOOK ? null : value)}>
+            <SelectTrigger className="w-40 flex-shrink-0" title="Defter"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_NOTEBOOK}>Defter yok</SelectItem>
+              {flattenNotebooks(notebooks).map(({ notebook, depth }) => (
+                <SelectItem key={notebook.id} value={notebook.id} style={{ paddingLeft: 32 + depth * 12 }}>{notebook.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => setIsHistoryOpen(true)} title="Not geçmişi"><History className="h-4 w-4" /></Button>
+          <Button onClick={handleUpdateNote} disabled={isSaving || !hasUnsavedChanges}><Save className="mr-2 h-4 w-4" />{isSaving ? 'Kaydediliyor...' : 'Kaydet'}</Button>
+        </div>
+        <div className="px-4 py-2 border-b flex items-center justify-between gap-2">
+          <TagEditor tags={tags} value={activeNote.tags ?? []} onChange={handleSetNoteTags} onCreate={handleCreateTag} />
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {editorChecklist.total > 0 && (
+              <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={handleMoveCompletedToBottom} disabled={editorChecklist.done === 0} title="Tamamlananları alta taşı">
+                <ArrowDownToLine className="mr-1 h-4 w-4" />Tamamlananlar alta
+              </Button>
+            )}
+            {canPreview && (
+              <ToggleGroup type="single" size="sm" value={editorView} onValueChange={(value) => { if (value) setPreferredView(value as EditorView); }}>
+                <ToggleGroupItem value="edit" title="Düzenle"><Pencil className="h-4 w-4" /></ToggleGroupItem>
+                {!isMobile && <ToggleGroupItem value="split" title="Yan yana"><Columns2 className="h-4 w-4" /></ToggleGroupItem>}
+                <ToggleGroupItem value="preview" title="Önizleme"><Eye className="h-4 w-4" /></ToggleGroupItem>
+              </ToggleGroup>
+            )}
+            <Button
+              variant={activeNote.format === 'markdown' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => handleSetNoteFormat(activeNote.format === 'markdown' ? 'plain' : 'markdown')}
+              title={activeNote.format === 'markdown' ? 'Düz metne çevir' : 'Markdown olarak biçimlendir'}
+            >
+              Markdown
+            </Button>
+          </div>
+        </div>
+        {editorView === 'edit' ? contentEditor : editorView === 'preview' ? contentPreview : (
+          <div className="flex flex-grow min-h-0">
+            <div className="flex w-1/2 border-r">{contentEditor}</div>
+            <div className="flex w-1/2 min-w-0">{contentPreview}</div>
+          </div>
+        )}
+      </div>
+    ) : (
+      <div className="flex flex-col items-center justify-center h-full text-muted-foreground bg-background">
+        <FileText className="w-16 h-16 mb-4" />
+        <h3 className="text-xl font-semibold">Not Seçilmedi</h3>
+        <p>Görüntülemek için bir not seçin veya yeni bir tane oluşturun.</p>
+      </div>
+    )
+  );
+  const DesktopLayout = () => (
+    <ResizablePanelGroup direction="horizontal" className="flex-grow rounded-lg border my-4">
+      <ResizablePanel defaultSize={18} minSize={12} maxSize={30}>
+        <NotebookTree
+          notebooks={notebooks}
+          noteCounts={noteCounts}
+          totalNotes={activeNoteCount}
+          selectedId={selectedNotebookId}
+          onSelect={(notebookId) => { setSelectedNotebookId(notebookId); setNoteView('notes'); }}
+          onCreate={handleCreateNotebook}
+          onRename={handleRenameNotebook}
+          onMove={handleMoveNotebook}
+          onReorder={handleReorderNotebook}
+          onDelete={handleDeleteNotebook}
+        />
+      </ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel defaultSize={25} minSize={20} maxSize={40}>{NoteListComponent()}</ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel defaultSize={57}>{EditorComponent()}</ResizablePanel>
+    </ResizablePanelGroup>
+  );
+  const MobileLayout = () => (
+    <div className="w-full h-full pt-4 relative overflow-hidden">
+      <AnimatePresence initial={false}>
+        {activeNoteId ? (
+          <motion.div key="editor" className="absolute inset-0" initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'tween', ease: 'easeInOut', duration: 0.3 }}>
+            {EditorComponent()}
+          </motion.div>
+        ) : (
+          <motion.div key="list" className="absolute inset-0" initial={{ x: 0 }} animate={{ x: 0 }} exit={{ x: '-100%' }} transition={{ type: 'tween', ease: 'easeInOut', duration: 0.3 }}>
+            {NoteListComponent()}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.5 }} className="w-full h-screen max-w-7xl mx-auto flex flex-col p-0 sm:p-4">
+      <header className="flex items-center justify-between p-4 sm:p-0 sm:pb-4 border-b gap-4">
+        <h1 className="text-xl font-semibold truncate">Hoşgeldin, <span className="font-bold text-blue-500">{username}</span></h1>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {username && dataKey && <AccountMenu username={username} dataKey={dataKey} onImport={handleImportNotes} onRestored={handleRestored} onLogout={handleLogout} />}
+        </div>
+      </header>
+      {/* Called as functions rather than rendered as <Components />: they are redefined on every render,
+          so as elements React would remount them and the editor would lose focus on each keystroke. */}
+      {isMobile ? MobileLayout() : DesktopLayout()}
+      {activeNote && dataKey && (
+        <NoteHistoryPanel key={activeNote.id} noteId={activeNote.id} dataKey={dataKey} open={isHistoryOpen} onOpenChange={setIsHistoryOpen} onRestore={handleRestoreRevision} />
+      )}
+      {conflict && (
+        <NoteConflictDialog local={conflict.local} server={conflict.server} onKeepLocal={handleKeepLocal} onUseServer={handleUseServer} onCancel={handleCancelConflict} />
+      )}
+      <footer className="text-center text-xs text-muted-foreground py-2 hidden sm:block">
+        Built with ❤️ at Cloudflare
+      </footer>
+    </motion.div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, Check, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { IMPORT_FILE_TYPES, parseImportFile } from '@/lib/note-import';
+import type { ImportedNote } from '@/lib/note-import';
+
+export interface ImportOutcome {
+  imported: number;
+  errors: string[]; // one message per note that could not be imported
+}
+
+interface ImportNotesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Encrypts and uploads the notes of one file, reporting how many have been sent so far.
+  onImport: (notes: ImportedNote[], onProgress: (sent: number) => void) => Promise<ImportOutcome>;
+}
+
+type FileStatus =
+  | { state: 'waiting' }
+  | { state: 'importing'; sent: number; total: number }
+  | { state: 'done'; imported: number; errors: string[] }
+  | { state: 'failed'; error: string };
+
+// Imports Markdown, text, ZIP, Evernote (.enex) and JSON files. Files are read in the browser and
+// imported one after another; each shows its own progress and what went wrong with it.
+export function ImportNotesDialog({ open, onOpenChange, onImport }: ImportNotesDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<{ name: string; status: FileStatus }[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const finished = files.filter(f => f.status.state === 'done' || f.status.state === 'failed').length;
+
+  const setStatus = (index: number, status: FileStatus) =>
+    setFiles(current => current.map((f, i) => (i === index ? { ...f, status } : f)));
+
+  const handleFiles = async (selected: File[]) => {
+    if (selected.length === 0) return;
+    setFiles(selected.map(file => ({ name: file.name, status: { state: 'waiting' } })));
+    setIsImporting(true);
+    for (const [index, file] of selected.entries()) {
+      try {
+        const notes = await parseImportFile(file);
+        if (notes.length === 0) throw new Error('Dosyada not bulunamadı.');
+        setStatus(index, { state: 'importing', sent: 0, total: notes.length });
+        const outcome = await onImport(notes, sent => setStatus(index, { state: 'importing', sent, total: notes.length }));
+        setStatus(index, { state: 'done', ...outcome });
+      } catch (error) {
+        setStatus(index, { state: 'failed', error: error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.' });
+      }
+    }
+    setIsImporting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (isImporting) return; onOpenChange(next); if (!next) setFiles([]); }}>
+      <DialogContent className="sm:max-w-lg" onInteractOutside={e => { if (isImporting) e.preventDefault(); }}>
+        <DialogHeader>
+          <DialogTitle>Notları İçe Aktar</DialogTitle>
+          <DialogDescription>
+            Markdown (.md), metin (.txt), ZIP, Evernote (.enex) veya JSON dosyalarını seçin. Dosyalar tarayıcınızda okunur ve şifrelenerek yüklenir; oluşturulma ve düzenleme tarihleri korunur.
+          </DialogDescription>
+        </DialogHeader>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={IMPORT_FILE_TYPES}
+          className="hidden"
+          onChange={e => { handleFiles([...(e.target.files ?? [])]); e.target.value = ''; }}
+        />
+        {files.length > 0 && (
+          <div className="space-y-3">
+            <Progress value={(finished / files.length) * 100} />
+            <ScrollArea className="max-h-72">
+              <ul className="space-y-2 pr-3">
+                {files.map(({ name, status }, i) => (
+                  <li key={i} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      {status.state === 'done' && status.errors.length === 0 && <Check className="h-4 w-4 flex-shrink-0 text-green-600" />}
+                      {(status.state === 'failed' || (status.state === 'done' && status.errors.length > 0)) && <AlertCircle className="h-4 w-4 flex-shrink-0 text-destructive" />}
+                      {(status.state === 'waiting' || status.state === 'importing') && <Loader2 className={status.state === 'importing' ? 'h-4 w-4 flex-shrink-0 animate-spin' : 'h-4 w-4 flex-shrink-0 text-muted-foreground'} />}
+                      <span className="truncate flex-grow">{name}</span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {status.state === 'waiting' && 'Bekliyor'}
+                        {status.state === 'importing' && `${status.sent}/${status.total}`}
+                        {status.state === 'done' && `${status.imported} not aktarıldı`}
+                      </span>
+                    </div>
+                    {status.state === 'failed' && <p className="ml-6 text-xs text-destructive">{status.error}</p>}
+                    {status.state === 'done' && status.errors.map((error, j) => <p key={j} className="ml-6 text-xs text-destructive">{error}</p>)}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        )}
+        <DialogFooter>
+          <Button onClick={() => inputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            {isImporting ? 'Aktarılıyor...' : 'Dosya seç'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,43 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import { cn } from '@/lib/utils';
+
+interface MarkdownPreviewProps {
+  content: string;
+  className?: string;
+  onToggleTask?: (lineIndex: number) => void; // makes task list checkboxes clickable
+}
+
+// Renders a note as GitHub-flavoured Markdown. Raw HTML in the note is not rendered, and the
+// tree is sanitized before code highlighting adds its classes, so note content cannot inject markup.
+export function MarkdownPreview({ content, className, onToggleTask }: MarkdownPreviewProps) {
+  return (
+    <div className={cn('markdown-body', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize, rehypeHighlight]}
+        components={{
+          a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+          // The checkbox itself carries no source position, so it is drawn by its list item,
+          // whose start line is the line to toggle.
+          input: ({ node: _node, ...props }) => (props.type === 'checkbox' && onToggleTask ? null : <input {...props} />),
+          li: ({ node, children, ...props }) => {
+            const checkbox = node?.children.find(child => child.type === 'element' && child.tagName === 'input');
+            const line = node?.position?.start.line;
+            if (!onToggleTask || !checkbox || checkbox.type !== 'element' || line === undefined) return <li {...props}>{children}</li>;
+            return (
+              <li {...props}>
+                <input type="checkbox" className="cursor-pointer" checked={Boolean(checkbox.properties.checked)} onChange={() => onToggleTask(line - 1)} />
+                {children}
+              </li>
+            );
+          },
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { formatDistanceToNow } from 'date-fns';
+import { tr } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { Note } from '@shared/types';
+
+interface NoteConflictDialogProps {
+  local: { title: string; content: string };
+  server: Note; // already decrypted
+  onKeepLocal: () => void;
+  onUseServer: () => void;
+  onCancel: () => void;
+}
+
+const VersionColumn = ({ heading, title, content }: { heading: string; title: string; content: string }) => (
+  <div className="flex flex-col min-w-0 rounded-md border">
+    <div className="px-3 py-2 border-b bg-muted/50 text-sm font-medium">{heading}</div>
+    <ScrollArea className="h-72">
+      <div className="p-3 space-y-2">
+        <p className="font-semibold break-words">{title}</p>
+        <p className="text-sm whitespace-pre-wrap break-words">{content}</p>
+      </div>
+    </ScrollArea>
+  </div>
+);
+
+// Shown when a save is rejected because the note changed elsewhere (e.g. in another tab).
+export function NoteConflictDialog({ local, server, onKeepLocal, onUseServer, onCancel }: NoteConflictDialogProps) {
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Kayıt Çakışması</DialogTitle>
+          <DialogDescription>
+            Bu not {formatDistanceToNow(new Date(server.updatedAt), { addSuffix: true, locale: tr })} başka bir yerde değiştirildi. Hangi sürümün saklanacağını seçin.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <VersionColumn heading="Sizin sürümünüz" title={local.title} content={local.content} />
+          <VersionColumn heading="Sunucudaki sürüm" title={server.title} content={server.content} />
+        </div>
+        <DialogFooter>
+          <Button variant="secondary" onClick={onCancel}>İptal</Button>
+          <Button variant="outline" onClick={onUseServer}>Sunucudakini kullan</Button>
+          <Button onClick={onKeepLocal}>Benimkini kaydet</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
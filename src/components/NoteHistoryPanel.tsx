@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { tr } from 'date-fns/locale';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { api } from '@/lib/api-client';
+import { decryptContent } from '@/lib/crypto';
+import { diffLines } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+import type { NoteRevision, Page } from '@shared/types';
+
+type DecryptedRevision = NoteRevision & { title: string; content: string };
+
+interface NoteHistoryPanelProps {
+  noteId: string;
+  dataKey: Uint8Array;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (title: string, content: string) => Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+const formatRevisionDate = (iso: string) => format(new Date(iso), 'd MMM yyyy HH:mm:ss', { locale: tr });
+
+export function NoteHistoryPanel({ noteId, dataKey, open, onOpenChange, onRestore }: NoteHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<DecryptedRevision[]>([]);
+  const [next, setNext] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (cursor: string | null) => {
+    setIsLoading(true);
+    try {
+      const query = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) query.set('cursor', cursor);
+      const page = await api<Page<NoteRevision>>(`/api/notes/${noteId}/revisions?${query}`);
+      const decrypted = await Promise.all(page.items.map(async (r) => ({ ...r, ...(await decryptContent(dataKey, r)) })));
+      setRevisions(current => (cursor ? [...current, ...decrypted] : decrypted));
+      setNext(page.next);
+      if (!cursor) {
+        // Default to comparing the latest save against the one before it.
+        setCompareId(decrypted[0]?.id ?? null);
+        setBaseId(decrypted[1]?.id ?? decrypted[0]?.id ?? null);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Not geçmişi yüklenemedi.', { description: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [noteId, dataKey]);
+
+  useEffect(() => {
+    if (open) loadPage(null);
+  }, [open, loadPage]);
+
+  const base = revisions.find(r => r.id === baseId);
+  const compare = revisions.find(r => r.id === compareId);
+  const diff = useMemo(() => {
+    if (!base || !compare) return [];
+    return diffLines(`${base.title}\n\n${base.content}`, `${compare.title}\n\n${compare.content}`);
+  }, [base, compare]);
+
+  const handleRestore = async () => {
+    if (!compare) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(compare.title, compare.content);
+      onOpenChange(false);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const revisionOptions = revisions.map(r => (
+    <SelectItem key={r.id} value={r.id}>{formatRevisionDate(r.createdAt)} · {r.size} B</SelectItem>
+  ));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Not Geçmişi</SheetTitle>
+          <SheetDescription>Her kayıt bir sürüm olarak saklanır. İki sürümü karşılaştırın veya eski bir sürümü geri yükleyin.</SheetDescription>
+        </SheetHeader>
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={baseId ?? undefined} onValueChange={setBaseId}>
+            <SelectTrigger><SelectValue placeholder="Eski sürüm" /></SelectTrigger>
+            <SelectContent>{revisionOptions}</SelectContent>
+          </Select>
+          <Select value={compareId ?? undefined} onValueChange={setCompareId}>
+            <SelectTrigger><SelectValue placeholder="Yeni sürüm" /></SelectTrigger>
+            <SelectContent>{revisionOptions}</SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="outline" size="sm" onClick={() => loadPage(next)} disabled={!next || isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {next ? 'Daha eski sürümleri yükle' : `${revisions.length} sürüm`}
+          </Button>
+          <Button size="sm" onClick={handleRestore} disabled={!compare || isRestoring}>
+            {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+            Bu sürümü geri yükle
+          </Button>
+        </div>
+        <ScrollArea className="flex-grow rounded-md border">
+          <pre className="p-4 text-sm font-mono whitespace-pre-wrap break-words">
+            {diff === null && <div className="font-sans text-muted-foreground">Bu iki sürüm arasındaki fark gösterilemeyecek kadar büyük.</div>}
+            {diff?.map((line, i) => (
+              <div
+                key={i}
+                className={cn(
+                  line.type === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+                  line.type === 'removed' && 'bg-red-500/15 text-red-700 dark:text-red-400 line-through'
+                )}
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </pre>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
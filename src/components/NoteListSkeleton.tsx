@@ -0,0 +1,17 @@
+import { Skeleton } from '@/components/ui/skeleton';
+
+// Placeholder rows shown while a list is loading.
+export function NoteListSkeleton() {
+  return (
+    <div className="p-4 space-y-4">
+      {[...Array(5)].map((_, i) => (
+        <div key={i} className="flex items-center space-x-4">
+          <div className="space-y-2 flex-grow">
+            <Skeleton className="h-4 w-3/4" />
+            <Skeleton className="h-4 w-1/2" />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronRight, Folder, FolderInput, FolderPlus, Library, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { childNotebooks, notebookSubtree } from '@/lib/notebooks';
+import { cn } from '@/lib/utils';
+import type { Notebook } from '@shared/types';
+
+interface NotebookTreeProps {
+  notebooks: Notebook[]; // already decrypted
+  noteCounts: Map<string | null, number>; // notes directly inside each notebook; null is "no notebook"
+  totalNotes: number;
+  selectedId: string | null;
+  onSelect: (notebookId: string | null) => void;
+  onCreate: (parentId: string | null, name: string) => Promise<void>;
+  onRename: (notebookId: string, name: string) => Promise<void>;
+  onMove: (notebookId: string, parentId: string | null) => Promise<void>;
+  onReorder: (notebookId: string, direction: -1 | 1) => Promise<void>;
+  onDelete: (notebookId: string) => Promise<void>;
+}
+
+type NameDialogState = { mode: 'create'; parentId: string | null } | { mode: 'rename'; notebook: Notebook };
+
+export function NotebookTree({ notebooks, noteCounts, totalNotes, selectedId, onSelect, onCreate, onRename, onMove, onReorder, onDelete }: NotebookTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [name, setName] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<Notebook | null>(null);
+  const byId = useMemo(() => new Map(notebooks.map(n => [n.id, n])), [notebooks]);
+
+  const openNameDialog = (state: NameDialogState) => {
+    setName(state.mode === 'rename' ? state.notebook.name : '');
+    setNameDialog(state);
+  };
+  const handleNameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!nameDialog || !trimmed) return;
+    if (nameDialog.mode === 'create') await onCreate(nameDialog.parentId, trimmed);
+    else await onRename(nameDialog.notebook.id, trimmed);
+    setNameDialog(null);
+  };
+  const toggle = (notebookId: string, open: boolean) => setCollapsed(current => {
+    const next = new Set(current);
+    if (open) next.delete(notebookId);
+    else next.add(notebookId);
+    return next;
+  });
+
+  // A path like "İş / Projeler" so nested targets can be told apart in the move menu.
+  const pathOf = (notebook: Notebook): string => {
+    const parent = notebook.parentId ? byId.get(notebook.parentId) : undefined;
+    return parent ? `${pathOf(parent)} / ${notebook.name}` : notebook.name;
+  };
+
+  const renderNode = (notebook: Notebook, depth: number): React.ReactNode => {
+    const children = childNotebooks(notebooks, notebook.id);
+    const siblings = childNotebooks(notebooks, notebook.parentId);
+    const index = siblings.findIndex(n => n.id === notebook.id);
+    const subtree = notebookSubtree(notebooks, notebook.id);
+    const moveTargets = notebooks.filter(n => !subtree.has(n.id) && n.id !== notebook.parentId);
+    const isOpen = !collapsed.has(notebook.id);
+    return (
+      <Collapsible key={notebook.id} open={isOpen} onOpenChange={(open) => toggle(notebook.id, open)}>
+        <div
+          className={cn('group flex items-center gap-1 rounded-md pr-1 text-sm hover:bg-muted/50', selectedId === notebook.id && 'bg-muted font-medium')}
+          style={{ paddingLeft: depth * 12 }}
+        >
+          {children.length > 0 ? (
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0">
+                <ChevronRight className={cn('h-4 w-4 transition-transform', isOpen && 'rotate-90')} />
+              </Button>
+            </CollapsibleTrigger>
+          ) : <span className="w-6 flex-shrink-0" />}
+          <button type="button" onClick={() => onSelect(notebook.id)} className="flex flex-grow items-center gap-2 min-w-0 py-1.5 text-left">
+            <Folder className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <span className="truncate">{notebook.name}</span>
+          </button>
+          <span className="text-xs text-muted-foreground">{noteCounts.get(notebook.id) ?? 0}</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"><MoreHorizontal className="h-4 w-4" /></Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => openNameDialog({ mode: 'create', parentId: notebook.id })}><FolderPlus className="mr-2 h-4 w-4" />Alt defter ekle</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => openNameDialog({ mode: 'rename', notebook })}><Pencil className="mr-2 h-4 w-4" />Yeniden adlandır</DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger><FolderInput className="mr-2 h-4 w-4" />Taşı</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {notebook.parentId && <DropdownMenuItem onSelect={() => onMove(notebook.id, null)}>En üst düzey</DropdownMenuItem>}
+                  {moveTargets.map(target => (
+                    <DropdownMenuItem key={target.id} onSelect={() => onMove(notebook.id, target.id)}>{pathOf(target)}</DropdownMenuItem>
+                  ))}
+                  {!notebook.parentId && moveTargets.length === 0 && <DropdownMenuItem disabled>Taşınabilecek defter yok</DropdownMenuItem>}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuItem disabled={index <= 0} onSelect={() => onReorder(notebook.id, -1)}><ArrowUp className="mr-2 h-4 w-4" />Yukarı taşı</DropdownMenuItem>
+              <DropdownMenuItem disabled={index === siblings.length - 1} onSelect={() => onReorder(notebook.id, 1)}><ArrowDown className="mr-2 h-4 w-4" />Aşağı taşı</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setPendingDelete(notebook)} className="text-destructive focus:text-destructive"><Trash2 className="mr-2 h-4 w-4" />Sil</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {children.length > 0 && <CollapsibleContent>{children.map(child => renderNode(child, depth + 1))}</CollapsibleContent>}
+      </Collapsible>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-background">
+      <div className="p-4 border-b flex justify-between items-center">
+        <h2 className="text-lg font-semibold">Defterler</h2>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openNameDialog({ mode: 'create', parentId: null })} title="Yeni defter"><FolderPlus className="h-4 w-4" /></Button>
+      </div>
+      <ScrollArea className="flex-grow">
+        <div className="p-2 space-y-0.5">
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className={cn('flex w-full items-center gap-2 rounded-md py-1.5 pl-7 pr-2 text-sm text-left hover:bg-muted/50', selectedId === null && 'bg-muted font-medium')}
+          >
+            <Library className="h-4 w-4 text-muted-foreground" />
+            <span className="flex-grow">Tüm Notlar</span>
+            <span className="text-xs text-muted-foreground">{totalNotes}</span>
+          </button>
+          {childNotebooks(notebooks, null).map(n => renderNode(n, 0))}
+        </div>
+      </ScrollArea>
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => { if (!open) setNameDialog(null); }}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.mode === 'rename' ? 'Defteri Yeniden Adlandır' : 'Yeni Defter'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleNameSubmit} className="space-y-4">
+            <Input value={name} onChange={e => setName(e.target.value)} placeholder="Defter adı" autoFocus />
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim()}>Kaydet</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => { if (!open) setPendingDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>"{pendingDelete?.name}" defterini silmek istiyor musunuz?</AlertDialogTitle>
+            <AlertDialogDescription>Defterdeki notlar ve alt defterler silinmez, bir üst düzeye taşınır.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>İptal</AlertDialogCancel>
+            <AlertDialogAction onClick={() => { if (pendingDelete) onDelete(pendingDelete.id); }} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">Sil</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
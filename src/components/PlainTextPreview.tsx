@@ -0,0 +1,26 @@
+import { parseChecklistLine } from '@/lib/checklist';
+import { cn } from '@/lib/utils';
+
+interface PlainTextPreviewProps {
+  content: string;
+  className?: string;
+  onToggleTask: (lineIndex: number) => void;
+}
+
+// Read view for plain-text notes: the text as typed, with checklist lines drawn as checkboxes.
+export function PlainTextPreview({ content, className, onToggleTask }: PlainTextPreviewProps) {
+  return (
+    <div className={cn('text-base whitespace-pre-wrap break-words', className)}>
+      {content.split('\n').map((line, i) => {
+        const item = parseChecklistLine(line);
+        if (!item) return <div key={i} className="min-h-[1.5em]">{line}</div>;
+        return (
+          <label key={i} className="flex items-start gap-2 cursor-pointer" style={{ paddingLeft: `${item.indent}ch` }}>
+            <input type="checkbox" className="mt-1.5" checked={item.checked} onChange={() => onToggleTask(i)} />
+            <span className={cn(item.checked && 'line-through text-muted-foreground')}>{item.text}</span>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
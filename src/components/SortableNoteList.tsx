@@ -0,0 +1,47 @@
+import { DndContext, KeyboardSensor, PointerSensor, closestCenter, useSensor, useSensors } from '@dnd-kit/core';
+import type { DragEndEvent } from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { cn } from '@/lib/utils';
+import type { Note } from '@shared/types';
+
+interface SortableNoteListProps {
+  notes: Note[];
+  renderNote: (note: Note) => React.ReactNode;
+  onReorder: (activeId: string, overId: string) => void;
+}
+
+const SortableNote = ({ note, renderNote }: { note: Note; renderNote: SortableNoteListProps['renderNote'] }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: note.id });
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn('relative bg-background', isDragging && 'z-10 shadow-md opacity-90')}
+      {...attributes}
+      {...listeners}
+    >
+      {renderNote(note)}
+    </div>
+  );
+};
+
+// The note list in manual order: notes are dragged into place with the mouse, touch or the keyboard
+// (focus a note, press space, move it with the arrow keys and press space again).
+export function SortableNoteList({ notes, renderNote, onReorder }: SortableNoteListProps) {
+  // A short distance is needed before a drag starts, so clicking a note or its buttons still works.
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (over && active.id !== over.id) onReorder(String(active.id), String(over.id));
+  };
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <SortableContext items={notes.map(n => n.id)} strategy={verticalListSortingStrategy}>
+        {notes.map(note => <SortableNote key={note.id} note={note} renderNote={renderNote} />)}
+      </SortableContext>
+    </DndContext>
+  );
+}
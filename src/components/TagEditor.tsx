@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Plus, Tag as TagIcon, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { foldText } from '@/lib/search';
+import type { Tag } from '@shared/types';
+
+interface TagEditorProps {
+  tags: Tag[]; // all of the user's tags, decrypted
+  value: string[]; // ids of the tags on the note
+  onChange: (tagIds: string[]) => void;
+  onCreate: (name: string) => Promise<Tag | null>;
+}
+
+// Tag chips for the note in the editor header, with a picker that can also create new tags.
+export function TagEditor({ tags, value, onChange, onCreate }: TagEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const byId = new Map(tags.map(t => [t.id, t]));
+  const folded = foldText(query.trim());
+  const available = tags.filter(t => !value.includes(t.id) && foldText(t.name).includes(folded));
+  // Names are compared the way search compares words, so "İş" and "iş" are the same tag.
+  const exists = tags.some(t => foldText(t.name) === folded);
+
+  const handleCreate = async () => {
+    const tag = await onCreate(query.trim());
+    if (tag) onChange([...value, tag.id]);
+    setQuery('');
+  };
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap min-w-0">
+      {value.map(id => byId.get(id)).filter((t): t is Tag => !!t).map(tag => (
+        <Badge key={tag.id} variant="secondary" className="gap-1 pr-1">
+          {tag.name}
+          <button type="button" onClick={() => onChange(value.filter(id => id !== tag.id))} className="rounded-sm hover:bg-muted-foreground/20" title="Etiketi kaldır">
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={(next) => { setOpen(next); if (!next) setQuery(''); }}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground"><TagIcon className="mr-1 h-3 w-3" />Etiket ekle</Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput value={query} onValueChange={setQuery} placeholder="Etiket ara veya oluştur..." />
+            <CommandList>
+              <CommandEmpty>Etiket bulunamadı.</CommandEmpty>
+              <CommandGroup>
+                {available.map(tag => (
+                  <CommandItem key={tag.id} value={tag.id} onSelect={() => { onChange([...value, tag.id]); setQuery(''); }}>
+                    {tag.name}
+                  </CommandItem>
+                ))}
+                {query.trim() && !exists && (
+                  <CommandItem value={`create:${query}`} onSelect={handleCreate}>
+                    <Plus className="mr-2 h-4 w-4" />"{query.trim()}" oluştur
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Check, GitMerge, Pencil, Settings2, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Tag } from '@shared/types';
+
+interface TagManagerDialogProps {
+  tags: Tag[]; // decrypted
+  onRename: (tagId: string, name: string) => Promise<void>;
+  onMerge: (tagId: string, targetId: string) => Promise<void>;
+  onDelete: (tagId: string) => Promise<void>;
+}
+
+// Rename, merge and delete tags. Merging and deleting change every note that carries the tag.
+export function TagManagerDialog({ tags, onRename, onMerge, onDelete }: TagManagerDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [merging, setMerging] = useState<{ tag: Tag; targetId: string | null } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Tag | null>(null);
+  const sorted = [...tags].sort((a, b) => a.name.localeCompare(b.name, 'tr'));
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !name.trim()) return;
+    await onRename(editingId, name.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <Dialog onOpenChange={() => { setEditingId(null); setMerging(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7 flex-shrink-0" title="Etiketleri yönet"><Settings2 className="h-4 w-4" /></Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Etiketler</DialogTitle>
+          <DialogDescription>Bir etiketi yeniden adlandırmak onu taşıyan tüm notlara yansır.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-80">
+          <div className="space-y-1 pr-3">
+            {sorted.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">Henüz etiket yok.</p>}
+            {sorted.map(tag => (
+              <div key={tag.id} className="flex items-center gap-2 rounded-md border p-2">
+                {editingId === tag.id ? (
+                  <form onSubmit={handleRename} className="flex flex-grow items-center gap-1">
+                    <Input value={name} onChange={e => setName(e.target.value)} className="h-8" autoFocus />
+                    <Button type="submit" variant="ghost" size="icon" className="h-8 w-8" disabled={!name.trim()}><Check className="h-4 w-4" /></Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)}><X className="h-4 w-4" /></Button>
+                  </form>
+                ) : merging?.tag.id === tag.id ? (
+                  <div className="flex flex-grow items-center gap-1">
+                    <Select value={merging.targetId ?? undefined} onValueChange={(targetId) => setMerging({ tag, targetId })}>
+                      <SelectTrigger className="h-8"><SelectValue placeholder={`"${tag.name}" şununla birleşsin...`} /></SelectTrigger>
+                      <SelectContent>
+                        {sorted.filter(t => t.id !== tag.id).map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={!merging.targetId}
+                      onClick={async () => { if (merging.targetId) await onMerge(tag.id, merging.targetId); setMerging(null); }}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMerging(null)}><X className="h-4 w-4" /></Button>
+                  </div>
+                ) : (
+                  <>
+                    <span className="flex-grow truncate text-sm">{tag.name}</span>
+                    <span className="text-xs text-muted-foreground">{tag.count} not</span>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => { setName(tag.name); setEditingId(tag.id); setMerging(null); }} title="Yeniden adlandır"><Pencil className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => { setMerging({ tag, targetId: null }); setEditingId(null); }} disabled={tags.length < 2} title="Birleştir"><GitMerge className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setPendingDelete(tag)} title="Sil"><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => { if (!open) setPendingDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>"{pendingDelete?.name}" etiketini silmek istiyor musunuz?</AlertDialogTitle>
+            <AlertDialogDescription>Etiket {pendingDelete?.count ?? 0} nottan kaldırılacak. Notların kendisi silinmez.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>İptal</AlertDialogCancel>
+            <AlertDialogAction onClick={() => { if (pendingDelete) onDelete(pendingDelete.id); }} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">Sil</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
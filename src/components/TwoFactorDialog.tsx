@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { Copy, Download, KeyRound, Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { api } from '@/lib/api-client';
+import { deriveLoginSecret } from '@/lib/crypto';
+import { encodeQr } from '@/lib/qr';
+import { useAppStore } from '@/hooks/use-app-store';
+import type { RecoveryCodes, TwoFactorSetup, TwoFactorStatus } from '@shared/types';
+
+type Step =
+  | { name: 'loading' }
+  | { name: 'off' }
+  | { name: 'scan'; setup: TwoFactorSetup }
+  | { name: 'codes'; recoveryCodes: string[] }
+  | { name: 'on'; recoveryCodesLeft: number };
+
+// The symbol as one SVG path, with the four-module quiet zone scanners need around it.
+function QrCode({ value }: { value: string }) {
+  const { size, path } = useMemo(() => {
+    const modules = encodeQr(value);
+    const parts: string[] = [];
+    modules.forEach((row, y) => row.forEach((dark, x) => { if (dark) parts.push(`M${x + 4} ${y + 4}h1v1h-1z`); }));
+    return { size: modules.length + 8, path: parts.join('') };
+  }, [value]);
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="h-48 w-48 rounded-md bg-white" shapeRendering="crispEdges" role="img" aria-label="QR kodu">
+      <path d={path} fill="black" />
+    </svg>
+  );
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.');
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Turns TOTP two-factor authentication on and off. Enrolling shows the secret as a QR code for an
+// authenticator app and only switches it on once a code from the app is entered; the recovery codes
+// that come back are shown once, here, and never again.
+export function TwoFactorDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const username = useAppStore(s => s.username) ?? '';
+  const [step, setStep] = useState<Step>({ name: 'loading' });
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    setStep({ name: 'loading' });
+    try {
+      const status = await api<TwoFactorStatus>('/api/user/2fa');
+      setStep(status.enabled ? { name: 'on', recoveryCodesLeft: status.recoveryCodesLeft } : { name: 'off' });
+    } catch (error) {
+      toast.error('İki adımlı doğrulama durumu alınamadı.', { description: errorMessage(error) });
+      setStep({ name: 'off' });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadStatus();
+  }, [open, loadStatus]);
+
+  const run = async (errorTitle: string, action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(errorTitle, { description: errorMessage(error) });
+      setCode('');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    run('Kurulum başlatılamadı.', async () => {
+      const setup = await api<TwoFactorSetup>('/api/user/2fa/setup', { method: 'POST', body: JSON.stringify({ loginSecret: await deriveLoginSecret(password, username) }) });
+      setPassword('');
+      setCode('');
+      setStep({ name: 'scan', setup });
+    });
+  };
+
+  const handleEnable = (value = code) => {
+    if (value.length !== 6) return;
+    run('Kod doğrulanamadı.', async () => {
+      const { recoveryCodes } = await api<RecoveryCodes>('/api/user/2fa/enable', { method: 'POST', body: JSON.stringify({ code: value }) });
+      setCode('');
+      setStep({ name: 'codes', recoveryCodes });
+      toast.success('İki adımlı doğrulama açıldı.', { description: 'Diğer cihazlardaki oturumlar kapatıldı.' });
+    });
+  };
+
+  const handleRegenerate = () => run('Kurtarma kodları yenilenemedi.', async () => {
+    const { recoveryCodes } = await api<RecoveryCodes>('/api/user/2fa/recovery-codes', { method: 'POST', body: JSON.stringify({ loginSecret: await deriveLoginSecret(password, username), code }) });
+    setPassword('');
+    setCode('');
+    setStep({ name: 'codes', recoveryCodes });
+  });
+
+  const handleDisable = () => run('İki adımlı doğrulama kapatılamadı.', async () => {
+    await api('/api/user/2fa', { method: 'DELETE', body: JSON.stringify({ loginSecret: await deriveLoginSecret(password, username), code }) });
+    setPassword('');
+    setCode('');
+    setStep({ name: 'off' });
+    toast.success('İki adımlı doğrulama kapatıldı.');
+  });
+
+  const copyCodes = (codes: string[]) => {
+    navigator.clipboard.writeText(codes.join('\n'))
+      .then(() => toast.success('Kurtarma kodları kopyalandı.'))
+      .catch(() => toast.error('Kopyalanamadı.'));
+  };
+
+  const downloadCodes = (codes: string[]) => {
+    const url = URL.createObjectURL(new Blob([`VaultNote kurtarma kodları\n\n${codes.join('\n')}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'vaultnote-kurtarma-kodlari.txt';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); setPassword(''); setCode(''); }}>
+      <DialogContent className="sm:max-w-[425px]" onInteractOutside={e => { if (step.name === 'codes') e.preventDefault(); }}>
+        <DialogHeader>
+          <DialogTitle>İki Adımlı Doğrulama</DialogTitle>
+          <DialogDescription>Girişte şifrenizin yanında doğrulama uygulamanızın (Google Authenticator, Authy, 1Password vb.) ürettiği kod da istenir.</DialogDescription>
+        </DialogHeader>
+        {step.name === 'loading' && <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>}
+        {step.name === 'off' && (
+          <form onSubmit={handleSetup} className="grid gap-4 py-4">
+            <p className="text-sm text-muted-foreground">İki adımlı doğrulama kapalı. Açmak için şifrenizi girin.</p>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input id="2fa-setup-password" type="password" placeholder="Şifre" value={password} onChange={e => setPassword(e.target.value)} required className="pl-10" />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isWorking || !password}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Devam
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+        {step.name === 'scan' && (
+          <div className="grid gap-4 py-4 justify-items-center">
+            <p className="text-sm text-muted-foreground">QR kodunu doğrulama uygulamanızla tarayın ya da anahtarı elle girin, ardından uygulamanın gösterdiği 6 haneli kodu yazın.</p>
+            <QrCode value={step.setup.otpauthUri} />
+            <code className="text-xs break-all text-center select-all rounded bg-muted px-2 py-1">{step.setup.secret.match(/.{1,4}/g)?.join(' ')}</code>
+            <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={code} onChange={setCode} onComplete={handleEnable} disabled={isWorking} autoFocus>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, i) => <InputOTPSlot key={i} index={i} />)}
+              </InputOTPGroup>
+            </InputOTP>
+            <Button className="w-full" onClick={() => handleEnable()} disabled={isWorking || code.length !== 6}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Doğrula ve aç
+            </Button>
+          </div>
+        )}
+        {step.name === 'codes' && (
+          <div className="grid gap-4 py-4">
+            <p className="text-sm text-muted-foreground">
+              Telefonunuza erişemezseniz bu kodlarla giriş yapabilirsiniz. Her kod bir kez kullanılabilir. Kodları güvenli bir yere kaydedin; bir daha gösterilmeyecekler.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 rounded-md border p-3 font-mono text-sm">
+              {step.recoveryCodes.map(c => <li key={c} className="text-center">{c}</li>)}
+            </ul>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => copyCodes(step.recoveryCodes)}><Copy className="mr-2 h-4 w-4" />Kopyala</Button>
+              <Button variant="outline" className="flex-1" onClick={() => downloadCodes(step.recoveryCodes)}><Download className="mr-2 h-4 w-4" />İndir</Button>
+            </div>
+            <Button onClick={loadStatus}>Kaydettim</Button>
+          </div>
+        )}
+        {step.name === 'on' && (
+          <form onSubmit={e => e.preventDefault()} className="grid gap-4 py-4">
+            <p className="text-sm text-muted-foreground">
+              İki adımlı doğrulama açık. Kalan kurtarma kodu: <span className="font-semibold text-foreground">{step.recoveryCodesLeft}</span>. Değişiklik için şifrenizi ve bir doğrulama ya da kurtarma kodu girin.
+            </p>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input id="2fa-password" type="password" placeholder="Şifre" value={password} onChange={e => setPassword(e.target.value)} required className="pl-10" />
+            </div>
+            <div className="relative">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input id="2fa-code" placeholder="Doğrulama veya kurtarma kodu" value={code} onChange={e => setCode(e.target.value)} autoComplete="one-time-code" required className="pl-10" />
+            </div>
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={handleRegenerate} disabled={isWorking || !password || !code}>Yeni kurtarma kodları</Button>
+              <Button type="button" variant="destructive" onClick={handleDisable} disabled={isWorking || !password || !code}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Kapat
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+import { create } from 'zustand';
+import { setAuthToken } from '@/lib/api-client';
+import { clearNoteCache } from '@/lib/note-cache';
+import type { ListProgress } from '@/lib/note-cache';
+import type { LoadedNotes } from '@/lib/vault-session';
+import type { Note, Notebook, NoteListPreferences, NotePreview, Tag } from '@shared/types';
+// The signed-in session and the notes, notebooks and tags it holds, shared by every part of the page.
+export type SaveStatus = 'saved' | 'saving' | 'offline' | 'failed';
+export type NoteView = 'notes' | 'archive' | 'trash';
+const sortByUpdatedAt = (notes: Note[]) => [...notes].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+export const DEFAULT_NOTE_LIST: NoteListPreferences = { sort: 'updated', order: [] };
+const withoutKeys = <T,>(record: Record<string, T>, keys: string[]) => Object.fromEntries(Object.entries(record).filter(([key]) => !keys.includes(key)));
+interface AppState {
+  isRestoring: boolean; // True until the cached session (if any) has been checked on startup
+  isAuthenticated: boolean;
+  username: string | null;
+  token: string | null; // Session token sent as a bearer token; the password is never kept
+  dataKey: Uint8Array | null; // Unwrapped note encryption key, kept in memory only
+  notes: Note[];
+  // Notes only known from their list summary, by id. Their `content` is empty until they are opened.
+  notePreviews: Record<string, NotePreview>;
+  listProgress: ListProgress; // how far GET /api/notes has been paged through
+  archivedNotes: Note[]; // kept apart from `notes` and only loaded when the archive is opened
+  notebooks: Notebook[]; // decrypted
+  selectedNotebookId: string | null; // null shows all notes
+  tags: Tag[]; // decrypted
+  selectedTagIds: string[]; // the list shows notes carrying all of these
+  favoritesOnly: boolean;
+  noteList: NoteListPreferences; // how the list is sorted; the store keeps notes newest first regardless
+  noteView: NoteView; // the store holds trashed notes too; this picks which ones the list shows
+  activeNoteId: string | null;
+  isLoading: boolean; // For auth process
+  isNotesLoading: boolean; // For initial notes load in dashboard
+  saveStatus: SaveStatus;
+  actions: {
+    login: (username: string, token: string, dataKey: Uint8Array, loaded: LoadedNotes, isMobile: boolean) => void;
+    logout: () => void;
+    renameUser: (username: string) => void;
+    setActiveNoteId: (noteId: string | null) => void;
+    addNote: (note: Note) => void;
+    updateNote: (noteId: string, title: string, content: string, version?: number) => void;
+    deleteNote: (noteId: string) => void;
+    applyServerChanges: (changed: Note[], deletedIds: string[], reset: boolean) => void;
+    setArchivedNotes: (notes: Note[]) => void;
+    addListedNotes: (notes: Note[], previews: Record<string, NotePreview>, progress: ListProgress) => void;
+    resetNoteList: () => void;
+    setNotebooks: (notebooks: Notebook[]) => void;
+    setSelectedNotebookId: (notebookId: string | null) => void;
+    setTags: (tags: Tag[]) => void;
+    toggleTagFilter: (tagId: string) => void;
+    toggleFavoritesOnly: () => void;
+    setNoteList: (noteList: NoteListPreferences) => void;
+    setNoteView: (noteView: NoteView) => void;
+    finishRestoring: () => void;
+    setLoading: (loading: boolean) => void;
+    setSaveStatus: (status: SaveStatus) => void;
+    finishNotesLoading: () => void;
+  };
+}
+export const useAppStore = create<AppState>((set, get) => ({
+  isRestoring: true,
+  isAuthenticated: false,
+  username: null,
+  token: null,
+  dataKey: null,
+  notes: [],
+  notePreviews: {},
+  listProgress: { cursor: null, complete: false },
+  archivedNotes: [],
+  notebooks: [],
+  selectedNotebookId: null,
+  tags: [],
+  selectedTagIds: [],
+  favoritesOnly: false,
+  noteList: DEFAULT_NOTE_LIST,
+  noteView: 'notes',
+  activeNoteId: null,
+  isLoading: false,
+  isNotesLoading: true,
+  saveStatus: 'saved',
+  actions: {
+    login: (username, token, dataKey, { notes, previews, ...listProgress }, isMobile) => {
+      setAuthToken(token, () => get().actions.logout());
+      const sortedNotes = sortByUpdatedAt(notes);
+      set({ 
+        isAuthenticated: true, 
+        username, 
+        token, 
+        dataKey,
+        notes: sortedNotes, 
+        notePreviews: previews,
+        listProgress,
+        activeNoteId: isMobile ? null : (sortedNotes[0]?.id || null), 
+        isLoading: false, 
+        isNotesLoading: true 
+      });
+    },
+    logout: () => {
+      const username = get().username;
+      // The local replica holds the session and data key, so it must not outlive the session.
+      if (username) clearNoteCache(username).catch(() => {});
+      setAuthToken(null);
+      set({ isAuthenticated: false, username: null, token: null, dataKey: null, notes: [], notePreviews: {}, listProgress: { cursor: null, complete: false }, archivedNotes: [], notebooks: [], selectedNotebookId: null, tags: [], selectedTagIds: [], favoritesOnly: false, noteList: DEFAULT_NOTE_LIST, noteView: 'notes', activeNoteId: null });
+    },
+    renameUser: (username) => set({ username }),
+    setActiveNoteId: (noteId) => set({ activeNoteId: noteId }),
+    addNote: (note) => set((state) => ({ notes: [note, ...state.notes], activeNoteId: note.id })),
+    updateNote: (noteId, title, content, version) => set((state) => {
+      const noteToUpdate = state.notes.find(n => n.id === noteId);
+      if (!noteToUpdate) return {};
+      const updatedNote = { ...noteToUpdate, title, content, version: version ?? noteToUpdate.version, updatedAt: new Date().toISOString() };
+      const otherNotes = state.notes.filter(n => n.id !== noteId);
+      return { notes: [updatedNote, ...otherNotes] };
+    }),
+    deleteNote: (noteId) => {
+      const remainingNotes = get().notes.filter(n => n.id !== noteId);
+      const newActiveId = get().activeNoteId === noteId ? (remainingNotes[0]?.id || null) : get().activeNoteId;
+      set({ notes: remainingNotes, notePreviews: withoutKeys(get().notePreviews, [noteId]), activeNoteId: newActiveId });
+    },
+    // `changed` holds full, decrypted notes, so none of them is preview-only afterwards.
+    // Archived notes among them move to `archivedNotes`, and unarchived ones move back.
+    applyServerChanges: (changed, deletedIds, reset) => set((state) => {
+      const byId = new Map((reset ? [] : state.notes).map(n => [n.id, n]));
+      const archivedById = new Map(state.archivedNotes.map(n => [n.id, n]));
+      for (const note of changed) {
+        (note.archived ? archivedById : byId).set(note.id, note);
+        (note.archived ? byId : archivedById).delete(note.id);
+      }
+      for (const id of deletedIds) {
+        byId.delete(id);
+        archivedById.delete(id);
+      }
+      const notes = sortByUpdatedAt([...byId.values()]);
+      // An open archived note is not in `notes`, so only a note that just left the list moves the selection.
+      const wasListed = state.notes.some(n => n.id === state.activeNoteId);
+      const activeNoteId = state.activeNoteId && wasListed && !byId.has(state.activeNoteId) ? (notes[0]?.id || null) : state.activeNoteId;
+      const notePreviews = reset ? {} : withoutKeys(state.notePreviews, [...changed.map(n => n.id), ...deletedIds]);
+      return { notes, notePreviews, archivedNotes: [...archivedById.values()], activeNoteId };
+    }),
+    setArchivedNotes: (archivedNotes) => set({ archivedNotes }),
+    // Adds a page of the list. A note already held in full is kept unless the page has a newer version.
+    addListedNotes: (listed, previews, listProgress) => set((state) => {
+      const byId = new Map(state.notes.map(n => [n.id, n]));
+      const notePreviews = { ...state.notePreviews };
+      for (const note of listed) {
+        const current = byId.get(note.id);
+        if (current && !(note.id in state.notePreviews) && (current.version ?? 0) >= (note.version ?? 0)) continue;
+        byId.set(note.id, note);
+        if (previews[note.id]) notePreviews[note.id] = previews[note.id];
+        else delete notePreviews[note.id];
+      }
+      const notes = sortByUpdatedAt([...byId.values()]);
+      return { notes, notePreviews, listProgress };
+    }),
+    resetNoteList: () => set({ notes: [], notePreviews: {}, listProgress: { cursor: null, complete: false } }),
+    // Falls back to "all notes" if the selected notebook no longer exists.
+    setNotebooks: (notebooks) => set((state) => ({
+      notebooks,
+      selectedNotebookId: notebooks.some(n => n.id === state.selectedNotebookId) ? state.selectedNotebookId : null,
+    })),
+    setSelectedNotebookId: (notebookId) => set({ selectedNotebookId: notebookId }),
+    setTags: (tags) => set((state) => ({
+      tags,
+      selectedTagIds: state.selectedTagIds.filter(id => tags.some(t => t.id === id)),
+    })),
+    toggleTagFilter: (tagId) => set((state) => ({
+      selectedTagIds: state.selectedTagIds.includes(tagId) ? state.selectedTagIds.filter(id => id !== tagId) : [...state.selectedTagIds, tagId],
+    })),
+    toggleFavoritesOnly: () => set((state) => ({ favoritesOnly: !state.favoritesOnly })),
+    setNoteList: (noteList) => set({ noteList }),
+    setNoteView: (noteView) => set({ noteView }),
+    finishRestoring: () => set({ isRestoring: false }),
+    setLoading: (loading) => set({ isLoading: loading }),
+    setSaveStatus: (status) => set({ saveStatus: status }),
+    finishNotesLoading: () => set({ isNotesLoading: false }),
+  },
+}));
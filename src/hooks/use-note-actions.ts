@@ -0,0 +1,210 @@
+import { toast } from 'sonner';
+import { api } from '@/lib/api-client';
+import { decryptNote, encryptName } from '@/lib/crypto';
+import { deleteCachedNotes, putCachedNotes, replaceCachedNoteList } from '@/lib/note-cache';
+import { moveNote } from '@/lib/note-order';
+import { encryptNoteText } from '@/lib/note-preview';
+import type { ImportedNote } from '@/lib/note-import';
+import type { ImportOutcome } from '@/components/ImportNotesDialog';
+import { useAppStore } from '@/hooks/use-app-store';
+import type { ImportResult, Note, NoteFormat, NoteListPreferences, Tag } from '@shared/types';
+const IMPORT_BATCH_SIZE = 50;
+interface NoteActionsOptions {
+  activeNote: Note | undefined;
+  notebookFilter: string | null; // new and imported notes go into this notebook
+  refreshTags: () => Promise<void>;
+}
+// Everything done to notes besides editing their text: creating and importing them, the trash and the
+// archive, their notebook, tags, flags and format, and the order of the list.
+export function useNoteActions({ activeNote, notebookFilter, refreshTags }: NoteActionsOptions) {
+  const username = useAppStore(s => s.username);
+  const dataKey = useAppStore(s => s.dataKey);
+  const notes = useAppStore(s => s.notes);
+  const selectedTagIds = useAppStore(s => s.selectedTagIds);
+  const noteList = useAppStore(s => s.noteList);
+  const noteView = useAppStore(s => s.noteView);
+  const { setActiveNoteId, addNote, deleteNote, applyServerChanges, setNoteList } = useAppStore(s => s.actions);
+  const handleCreateNote = async () => {
+    if (!dataKey) return;
+    const draft = { title: 'İsimsiz Not', content: 'Yeni notunuzu buraya yazın...' };
+    toast.promise(
+      encryptNoteText(dataKey, draft.title, draft.content)
+        .then(({ encrypted, searchTokens, preview }) => api<Note>('/api/notes', { method: 'POST', body: JSON.stringify({ ...encrypted, searchTokens, preview, notebookId: notebookFilter, tags: selectedTagIds }) })),
+      {
+        loading: 'Yeni not oluşturuluyor...',
+        success: (newNote) => {
+          addNote({ ...newNote, ...draft });
+          if (username) putCachedNotes(username, [newNote]).catch(() => {});
+          return 'Not başarıyla oluşturuldu.';
+        },
+        error: 'Not oluşturulamadı.',
+      }
+    );
+  };
+  // Deleting moves the note to the trash; the toast offers to undo it right away.
+  const handleDeleteNote = async (noteId: string) => {
+    try {
+      await applyNoteMetadata(await api<Note>(`/api/notes/${noteId}`, { method: 'DELETE' }));
+      if (useAppStore.getState().activeNoteId === noteId) setActiveNoteId(null);
+      toast.success('Not çöp kutusuna taşındı.', { action: { label: 'Geri al', onClick: () => handleRestoreNote(noteId) } });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Not silinemedi.', { description: errorMessage });
+    }
+  };
+  const handleRestoreNote = async (noteId: string) => {
+    try {
+      await applyNoteMetadata(await api<Note>(`/api/notes/${noteId}/restore`, { method: 'POST' }));
+      toast.success('Not geri yüklendi.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Not geri yüklenemedi.', { description: errorMessage });
+    }
+  };
+  const handlePermanentDelete = async (noteId: string) => {
+    toast.promise(
+      api(`/api/notes/${noteId}/permanent`, { method: 'DELETE' }),
+      {
+        loading: 'Not siliniyor...',
+        success: () => {
+          deleteNote(noteId);
+          if (username) deleteCachedNotes(username, [noteId]).catch(() => {});
+          return 'Not kalıcı olarak silindi.';
+        },
+        error: 'Not silinemedi.',
+      }
+    );
+  };
+  const handleEmptyTrash = async () => {
+    toast.promise(
+      api<{ deleted: string[] }>('/api/notes/trash', { method: 'DELETE' }),
+      {
+        loading: 'Çöp kutusu boşaltılıyor...',
+        success: ({ deleted }) => {
+          applyServerChanges([], deleted, false);
+          if (username) deleteCachedNotes(username, deleted).catch(() => {});
+          return 'Çöp kutusu boşaltıldı.';
+        },
+        error: 'Çöp kutusu boşaltılamadı.',
+      }
+    );
+  };
+  // Takes in a note returned by one of the metadata routes (notebook, tags, format), keeping its decrypted
+  // text. The route returns the whole note, so a note only listed with its preview is decrypted from it.
+  const applyNoteMetadata = async (updated: Note) => {
+    const { notes: listed, archivedNotes: archived, notePreviews: previews } = useAppStore.getState();
+    const local = listed.find(n => n.id === updated.id) ?? archived.find(n => n.id === updated.id);
+    if (!local || updated.id in previews) {
+      if (dataKey) applyServerChanges([await decryptNote(dataKey, updated)], [], false);
+    } else {
+      applyServerChanges([{ ...updated, title: local.title, content: local.content }], [], false);
+    }
+    if (!username) return;
+    (updated.archived ? deleteCachedNotes(username, [updated.id]) : putCachedNotes(username, [updated])).catch(() => {});
+  };
+  const handleSetArchived = async (noteId: string, archived: boolean) => {
+    try {
+      await applyNoteMetadata(await api<Note>(`/api/notes/${noteId}/${archived ? 'archive' : 'unarchive'}`, { method: 'POST' }));
+      if (archived && useAppStore.getState().activeNoteId === noteId && noteView === 'notes') setActiveNoteId(null);
+      toast.success(archived ? 'Not arşivlendi.' : 'Not arşivden çıkarıldı.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error(archived ? 'Not arşivlenemedi.' : 'Not arşivden çıkarılamadı.', { description: errorMessage });
+    }
+  };
+  const handleMoveNote = async (notebookId: string | null) => {
+    if (!activeNote) return;
+    try {
+      await applyNoteMetadata(await api<Note>(`/api/notes/${activeNote.id}/notebook`, { method: 'PUT', body: JSON.stringify({ notebookId }) }));
+      toast.success('Not taşındı.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Not taşınamadı.', { description: errorMessage });
+    }
+  };
+  const handleToggleNoteFlag = async (note: Note, flag: 'pinned' | 'favorite') => {
+    const route = flag === 'pinned' ? 'pin' : 'favorite';
+    try {
+      await applyNoteMetadata(await api<Note>(`/api/notes/${note.id}/${route}`, { method: 'PUT', body: JSON.stringify({ [flag]: !note[flag] }) }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Not güncellenemedi.', { description: errorMessage });
+    }
+  };
+  const handleSetNoteFormat = async (format: NoteFormat) => {
+    if (!activeNote) return;
+    try {
+      await applyNoteMetadata(await api<Note>(`/api/notes/${activeNote.id}/format`, { method: 'PUT', body: JSON.stringify({ format }) }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Not biçimi değiştirilemedi.', { description: errorMessage });
+    }
+  };
+  // Imported notes go into the selected notebook. Their tags are matched to the user's tags by name,
+  // and the ones that do not exist yet are created first.
+  const handleImportNotes = async (imported: ImportedNote[], onProgress: (sent: number) => void): Promise<ImportOutcome> => {
+    if (!dataKey) return { imported: 0, errors: [] };
+    const tagIds = new Map(useAppStore.getState().tags.map(t => [t.name.toLocaleLowerCase('tr'), t.id]));
+    for (const name of new Set(imported.flatMap(n => n.tags))) {
+      if (tagIds.has(name.toLocaleLowerCase('tr'))) continue;
+      const tag = await api<Tag>('/api/tags', { method: 'POST', body: JSON.stringify(await encryptName(dataKey, name)) });
+      tagIds.set(name.toLocaleLowerCase('tr'), tag.id);
+    }
+    const outcome: ImportOutcome = { imported: 0, errors: [] };
+    for (let start = 0; start < imported.length; start += IMPORT_BATCH_SIZE) {
+      const batch = imported.slice(start, start + IMPORT_BATCH_SIZE);
+      try {
+        const entries = await Promise.all(batch.map(async (note) => {
+          const { encrypted, searchTokens, preview } = await encryptNoteText(dataKey, note.title, note.content);
+          const tags = [...new Set(note.tags.map(name => tagIds.get(name.toLocaleLowerCase('tr'))))].filter((id): id is string => !!id);
+          return { ...encrypted, searchTokens, preview, tags, format: note.format, notebookId: notebookFilter, createdAt: note.createdAt, updatedAt: note.updatedAt };
+        }));
+        const result = await api<ImportResult>('/api/notes/import', { method: 'POST', body: JSON.stringify({ notes: entries }) });
+        const failed = new Map(result.failed.map(f => [f.index, f.error]));
+        // `created` lists the notes that went through in request order, so they line up with the rest of the batch.
+        const sources = batch.filter((_, i) => !failed.has(i));
+        const created = result.created.map((note, i) => ({ ...note, title: sources[i].title, content: sources[i].content }));
+        applyServerChanges(created, [], false);
+        if (username) putCachedNotes(username, result.created).catch(() => {});
+        outcome.imported += created.length;
+        outcome.errors.push(...[...failed].map(([i, error]) => `${batch[i].title}: ${error}`));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+        outcome.errors.push(...batch.map(note => `${note.title}: ${errorMessage}`));
+      }
+      onProgress(Math.min(start + IMPORT_BATCH_SIZE, imported.length));
+    }
+    await refreshTags();
+    return outcome;
+  };
+  // Applied right away and then saved; the server's copy replaces it once the request returns.
+  const changeNoteList = async (patch: Partial<NoteListPreferences>) => {
+    const previous = useAppStore.getState().noteList;
+    setNoteList({ ...previous, ...patch });
+    try {
+      const saved = await api<NoteListPreferences>('/api/user/note-list', { method: 'PUT', body: JSON.stringify(patch) });
+      setNoteList(saved);
+      if (username) replaceCachedNoteList(username, saved).catch(() => {});
+    } catch (error) {
+      setNoteList(previous);
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Sıralama kaydedilemedi.', { description: errorMessage });
+    }
+  };
+  const handleReorderNotes = (activeId: string, overId: string) => changeNoteList({ order: moveNote(notes, noteList, activeId, overId) });
+  return {
+    handleCreateNote,
+    handleDeleteNote,
+    handleRestoreNote,
+    handlePermanentDelete,
+    handleEmptyTrash,
+    applyNoteMetadata,
+    handleSetArchived,
+    handleMoveNote,
+    handleToggleNoteFlag,
+    handleSetNoteFormat,
+    handleImportNotes,
+    changeNoteList,
+    handleReorderNotes,
+  };
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { api, ApiError } from '@/lib/api-client';
+import { decryptContent, decryptNote } from '@/lib/crypto';
+import { putCachedNotes } from '@/lib/note-cache';
+import { encryptNoteText } from '@/lib/note-preview';
+import { loadPendingSaves, queuePendingSave, removePendingSave } from '@/lib/save-queue';
+import { moveCompletedToBottom, toggleChecklistLine } from '@/lib/checklist';
+import { useAppStore } from '@/hooks/use-app-store';
+import type { Note, NoteCiphertext } from '@shared/types';
+const AUTOSAVE_DELAY_MS = 1500;
+type SaveResult = 'saved' | 'offline' | 'conflict' | 'failed';
+export interface NoteConflict {
+  noteId: string;
+  local: { title: string; content: string };
+  server: Note;
+}
+// The open note as it is being edited: its unsaved title and content, saving them (autosave, offline
+// queue, version conflicts) and the editor actions that change the text.
+export function useNoteEditor() {
+  const username = useAppStore(s => s.username);
+  const dataKey = useAppStore(s => s.dataKey);
+  const notes = useAppStore(s => s.notes);
+  const notePreviews = useAppStore(s => s.notePreviews);
+  const archivedNotes = useAppStore(s => s.archivedNotes);
+  const activeNoteId = useAppStore(s => s.activeNoteId);
+  const saveStatus = useAppStore(s => s.saveStatus);
+  const isSaving = saveStatus === 'saving';
+  const { setActiveNoteId, updateNote, setSaveStatus } = useAppStore(s => s.actions);
+  const activeNote = useMemo(
+    () => notes.find(n => n.id === activeNoteId) ?? archivedNotes.find(n => n.id === activeNoteId),
+    [notes, archivedNotes, activeNoteId]
+  );
+  // A note listed with only its preview is downloaded when opened, and cannot be edited until then.
+  const isActivePreview = !!activeNoteId && activeNoteId in notePreviews;
+  const [currentTitle, setCurrentTitle] = useState(activeNote?.title || '');
+  const [currentContent, setCurrentContent] = useState(activeNote?.content || '');
+  const [conflict, setConflict] = useState<NoteConflict | null>(null);
+  // The edit whose save last failed, so autosave does not retry it in a loop.
+  const failedEditRef = useRef<string | null>(null);
+  const hasUnsavedChanges = useMemo(() => {
+    if (!activeNote || isActivePreview) return false;
+    return currentTitle !== activeNote.title || currentContent !== activeNote.content;
+  }, [currentTitle, currentContent, activeNote, isActivePreview]);
+  useEffect(() => {
+    // Only switching notes (or the open note finishing downloading) resets the editor. Reacting to
+    // every store update would overwrite whatever was typed while an autosave was in flight.
+    const { notes: listed, archivedNotes: archived } = useAppStore.getState();
+    const note = listed.find(n => n.id === activeNoteId) ?? archived.find(n => n.id === activeNoteId);
+    setCurrentTitle(note?.title || '');
+    setCurrentContent(note?.content || '');
+  }, [activeNoteId, isActivePreview]);
+  // Replaces the editor text, e.g. when the open note was changed on another device.
+  const loadIntoEditor = useCallback((note: { title: string; content: string }) => {
+    setCurrentTitle(note.title);
+    setCurrentContent(note.content);
+  }, []);
+  // `baseVersion` is the version the edit was made against; the server rejects the save with 409 if it
+  // moved on. When the request cannot reach the server at all, the edit is queued for later instead.
+  const saveNote = useCallback(async (noteId: string, title: string, content: string, baseVersion: number, successMessage?: string): Promise<SaveResult> => {
+    if (!dataKey || !username) return 'failed';
+    setSaveStatus('saving');
+    // Set once encryption succeeded; an edit can only be queued for later as ciphertext.
+    let encrypted: NoteCiphertext | null = null;
+    try {
+      const text = await encryptNoteText(dataKey, title, content);
+      encrypted = text.encrypted;
+      const { searchTokens, preview } = text;
+      const updatedNote = await api<Note>(`/api/notes/${noteId}`, {
+        method: 'PUT',
+        headers: { 'If-Match': `"${baseVersion}"` },
+        body: JSON.stringify({ ...encrypted, searchTokens, preview }),
+      });
+      removePendingSave(username, noteId);
+      updateNote(noteId, title, content, updatedNote.version);
+      putCachedNotes(username, [updatedNote]).catch(() => {});
+      failedEditRef.current = null;
+      setSaveStatus('saved');
+      if (successMessage) toast.success(successMessage);
+      return 'saved';
+    } catch (error) {
+      if (encrypted && !(error instanceof ApiError)) {
+        // fetch itself failed, i.e. we are offline.
+        queuePendingSave(username, { noteId, ...encrypted, baseVersion, queuedAt: new Date().toISOString() });
+        updateNote(noteId, title, content);
+        setSaveStatus('offline');
+        return 'offline';
+      }
+      if (error instanceof ApiError && error.status === 409 && error.data) {
+        removePendingSave(username, noteId);
+        setSaveStatus('failed');
+        setConflict({ noteId, local: { title, content }, server: await decryptNote(dataKey, error.data as Note) });
+        return 'conflict';
+      }
+      if (error instanceof ApiError && error.status === 404) removePendingSave(username, noteId);
+      failedEditRef.current = `${noteId}\u0000${title}\u0000${content}`;
+      setSaveStatus('failed');
+      toast.error('Not kaydedilemedi.', { description: error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.' });
+      return 'failed';
+    }
+  }, [dataKey, username, updateNote, setSaveStatus]);
+  // Sends edits queued while offline, oldest first. Stops at the first one that still cannot get through.
+  const flushPendingSaves = useCallback(async () => {
+    if (!dataKey || !username) return;
+    for (const pending of loadPendingSaves(username)) {
+      const { title, content } = await decryptContent(dataKey, pending);
+      if ((await saveNote(pending.noteId, title, content, pending.baseVersion)) === 'offline') break;
+    }
+  }, [dataKey, username, saveNote]);
+  useEffect(() => {
+    if (!activeNote || !hasUnsavedChanges || isSaving || conflict) return;
+    if (failedEditRef.current === `${activeNote.id}\u0000${currentTitle}\u0000${currentContent}`) return;
+    const timer = setTimeout(() => {
+      saveNote(activeNote.id, currentTitle, currentContent, activeNote.version ?? 0);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeNote, currentTitle, currentContent, hasUnsavedChanges, isSaving, conflict, saveNote]);
+  useEffect(() => {
+    // Offline edits are kept in localStorage and sent once the browser is back online, but only while
+    // this page is open; closing it leaves them queued until VaultNote is opened again.
+    if (!hasUnsavedChanges && saveStatus !== 'saving' && saveStatus !== 'offline') return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges, saveStatus]);
+  // Saves pending edits right away instead of waiting for the autosave delay, e.g. before switching notes.
+  const handleSelectNote = (noteId: string | null) => {
+    if (activeNote && hasUnsavedChanges && !isSaving) {
+      saveNote(activeNote.id, currentTitle, currentContent, activeNote.version ?? 0);
+    }
+    setActiveNoteId(noteId);
+  };
+  const handleKeepLocal = async () => {
+    if (!conflict) return;
+    const { noteId, local, server } = conflict;
+    setConflict(null);
+    await saveNote(noteId, local.title, local.content, server.version ?? 0, 'Not Kaydedildi');
+  };
+  const handleUseServer = () => {
+    if (!conflict) return;
+    const { noteId, server } = conflict;
+    setConflict(null);
+    updateNote(noteId, server.title, server.content, server.version);
+    setSaveStatus('saved');
+    if (noteId === activeNoteId) {
+      setCurrentTitle(server.title);
+      setCurrentContent(server.content);
+    }
+  };
+  const handleUpdateNote = async () => {
+    if (!activeNote || isSaving || !hasUnsavedChanges) return;
+    await saveNote(activeNote.id, currentTitle, currentContent, activeNote.version ?? 0, 'Not Kaydedildi');
+  };
+  // Restoring saves the old version as a new revision, so the restore itself can be undone from history.
+  const handleRestoreRevision = async (title: string, content: string) => {
+    if (!activeNote) return;
+    setCurrentTitle(title);
+    setCurrentContent(content);
+    await saveNote(activeNote.id, title, content, activeNote.version ?? 0, 'Sürüm geri yüklendi');
+  };
+  // Checkbox clicks are saved right away rather than through autosave.
+  const handleToggleTask = (lineIndex: number) => {
+    if (!activeNote) return;
+    const next = toggleChecklistLine(currentContent, lineIndex);
+    setCurrentContent(next);
+    if (!isSaving) saveNote(activeNote.id, currentTitle, next, activeNote.version ?? 0);
+  };
+  const handleMoveCompletedToBottom = () => {
+    if (!activeNote) return;
+    const next = moveCompletedToBottom(currentContent);
+    if (next === currentContent) return;
+    setCurrentContent(next);
+    if (!isSaving) saveNote(activeNote.id, currentTitle, next, activeNote.version ?? 0);
+  };
+  const handleCancelConflict = () => setConflict(null);
+  return {
+    activeNote,
+    isActivePreview,
+    currentTitle,
+    setCurrentTitle,
+    currentContent,
+    setCurrentContent,
+    hasUnsavedChanges,
+    isSaving,
+    conflict,
+    flushPendingSaves,
+    loadIntoEditor,
+    handleSelectNote,
+    handleKeepLocal,
+    handleUseServer,
+    handleCancelConflict,
+    handleUpdateNote,
+    handleRestoreRevision,
+    handleToggleTask,
+    handleMoveCompletedToBottom,
+  };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useState } from 'react';
+import { api } from '@/lib/api-client';
+import { buildSearchQuery, matchesAllTerms, queryWords } from '@/lib/search';
+import { useAppStore } from '@/hooks/use-app-store';
+import type { SearchResult } from '@shared/types';
+const SEARCH_DELAY_MS = 300;
+const SEARCH_FETCH_LIMIT = 20; // search results that are downloaded when they are not in the loaded list
+// Searches the notes on the server as the query is typed, and the notes in memory while offline.
+// `fetchNote` downloads results that are not loaded yet, so they can be listed.
+export function useNoteSearch(fetchNote: (noteId: string) => Promise<void>) {
+  const dataKey = useAppStore(s => s.dataKey);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null); // null when not searching
+  const [isSearching, setIsSearching] = useState(false);
+  const searchTerms = useMemo(() => queryWords(searchQuery), [searchQuery]);
+  useEffect(() => {
+    if (!dataKey || searchTerms.length === 0) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const q = await buildSearchQuery(dataKey, searchQuery);
+        const results = await api<SearchResult[]>(`/api/notes/search?q=${q ?? ''}`);
+        if (cancelled) return;
+        setSearchResults(results);
+        // Results beyond the pages loaded so far are downloaded so they can be shown.
+        const { notes: listed, archivedNotes: archived } = useAppStore.getState();
+        const known = new Set([...listed, ...archived].map(n => n.id));
+        const unknown = results.filter(r => !known.has(r.noteId)).slice(0, SEARCH_FETCH_LIMIT);
+        await Promise.all(unknown.map(r => fetchNote(r.noteId).catch(() => {})));
+      } catch {
+        // Offline: fall back to the notes in memory (previews for those not downloaded), newest first.
+        const { notes: listed, archivedNotes: archived, notePreviews: previews } = useAppStore.getState();
+        const matches = [...listed, ...archived].filter(n => matchesAllTerms(`${n.title}\n${previews[n.id]?.excerpt ?? n.content}`, searchTerms));
+        if (!cancelled) setSearchResults(matches.map(n => ({ noteId: n.id, score: 0 })));
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [dataKey, searchQuery, searchTerms, fetchNote]);
+  return { searchQuery, setSearchQuery, searchTerms, searchResults, isSearching };
+}
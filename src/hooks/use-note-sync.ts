@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { api } from '@/lib/api-client';
+import { decryptName, decryptNote } from '@/lib/crypto';
+import { deleteCachedNotes, getSyncCursor, putCachedNotes, readCachedNoteList, readCachedNotebooks, readCachedTags, replaceCachedNoteList, replaceCachedNotebooks, replaceCachedNotes, replaceCachedTags, setListProgress, setSyncCursor } from '@/lib/note-cache';
+import { loadPendingSaves } from '@/lib/save-queue';
+import { buildSearchTokens } from '@/lib/search';
+import { openListedNotes } from '@/lib/vault-session';
+import { DEFAULT_NOTE_LIST, useAppStore } from '@/hooks/use-app-store';
+import type { Note, Notebook, NoteChanges, NoteListPreferences, Page, RestoreResult, Tag } from '@shared/types';
+const NOTE_PAGE_SIZE = 50;
+interface NoteSyncOptions {
+  isEditorDirty: boolean; // the open note has edits that are not saved yet
+  flushPendingSaves: () => Promise<void>;
+  loadIntoEditor: (note: { title: string; content: string }) => void;
+}
+// Keeps the store and the local replica in step with the server: paging through the note list,
+// pulling changes from other devices, and refetching notebooks, tags and the list order.
+export function useNoteSync({ isEditorDirty, flushPendingSaves, loadIntoEditor }: NoteSyncOptions) {
+  const username = useAppStore(s => s.username);
+  const dataKey = useAppStore(s => s.dataKey);
+  const activeNoteId = useAppStore(s => s.activeNoteId);
+  const isActivePreview = useAppStore(s => !!s.activeNoteId && s.activeNoteId in s.notePreviews);
+  const noteView = useAppStore(s => s.noteView);
+  const { setActiveNoteId, applyServerChanges, addListedNotes, resetNoteList, setArchivedNotes, setNotebooks, setTags, setNoteList } = useAppStore(s => s.actions);
+  const [isArchiveLoading, setIsArchiveLoading] = useState(false);
+  // Read by syncNotes without making it depend on every keystroke.
+  const isEditorDirtyRef = useRef(false);
+  useEffect(() => { isEditorDirtyRef.current = isEditorDirty; }, [isEditorDirty]);
+  // Pulls changes made on other devices since the last sync into the store and the local replica.
+  const syncNotes = useCallback(async () => {
+    if (!dataKey || !username) return;
+    try {
+      const since = await getSyncCursor(username);
+      const changes = await api<NoteChanges>(`/api/notes/changes?since=${since ?? ''}`);
+      const { notes: localNotes, activeNoteId: currentId } = useAppStore.getState();
+      // Notes with local edits keep them; saving those edits runs into the version check
+      // and surfaces the conflict dialog instead of silently dropping either side.
+      const keepLocal = new Set(loadPendingSaves(username).map(p => p.noteId));
+      if (currentId && isEditorDirtyRef.current) keepLocal.add(currentId);
+      const merged = await Promise.all(changes.notes.map(async (note) => {
+        const local = keepLocal.has(note.id) ? localNotes.find(n => n.id === note.id) : undefined;
+        return local ?? decryptNote(dataKey, note);
+      }));
+      applyServerChanges(merged, changes.deleted, changes.reset);
+      // After a reset the list is loaded again from its first page.
+      if (changes.reset) resetNoteList();
+      const refreshedActive = merged.find(n => n.id === currentId && !keepLocal.has(n.id));
+      if (refreshedActive) loadIntoEditor(refreshedActive);
+      // The local replica, like the note list, leaves archived notes out.
+      const live = changes.notes.filter(n => !n.archived);
+      if (changes.reset) {
+        await replaceCachedNotes(username, []);
+        await setListProgress(username, { cursor: null, complete: false });
+      } else {
+        await putCachedNotes(username, live);
+        await deleteCachedNotes(username, [...changes.deleted, ...changes.notes.filter(n => n.archived).map(n => n.id)]);
+      }
+      await setSyncCursor(username, changes.cursor);
+    } catch {
+      // Offline or the server is unreachable; the next trigger tries again.
+    }
+  }, [dataKey, username, applyServerChanges, resetNoteList, loadIntoEditor]);
+  // Loads the next page of the note list into the store and the local replica, one page at a time.
+  // Resolves to false if no page could be loaded; a caller that comes while a page is on its way waits for it.
+  const pageLoadRef = useRef<Promise<boolean> | null>(null);
+  const loadNextPage = useCallback((): Promise<boolean> => {
+    const { listProgress: progress } = useAppStore.getState();
+    if (!dataKey || !username || progress.complete) return Promise.resolve(false);
+    pageLoadRef.current ??= (async () => {
+      try {
+        const query = new URLSearchParams({ limit: String(NOTE_PAGE_SIZE) });
+        if (progress.cursor) query.set('cursor', progress.cursor);
+        const page = await api<Page<Note>>(`/api/notes?${query}`);
+        const { notes: listed, previews } = await openListedNotes(dataKey, page.items);
+        const next = { cursor: page.next, complete: page.next === null };
+        addListedNotes(listed, previews, next);
+        await putCachedNotes(username, listed);
+        await setListProgress(username, next);
+        return true;
+      } catch {
+        // Offline or the server is unreachable; the list can be scrolled to (or the button pressed) again.
+        return false;
+      } finally {
+        pageLoadRef.current = null;
+      }
+    })();
+    return pageLoadRef.current;
+  }, [dataKey, username, addListedNotes]);
+  // The server pages the list by last update only, so any other sort needs every note first. Until
+  // then the list shows as loading; if a page fails to load, what is there is sorted after all.
+  const sort = useAppStore(s => s.noteList.sort);
+  const isListComplete = useAppStore(s => s.listProgress.complete);
+  const [isLoadingAllNotes, setIsLoadingAllNotes] = useState(false);
+  useEffect(() => {
+    if (sort === 'updated' || isListComplete) return;
+    let cancelled = false;
+    setIsLoadingAllNotes(true);
+    (async () => {
+      while (!cancelled && !useAppStore.getState().listProgress.complete) {
+        if (!(await loadNextPage())) break;
+      }
+    })().finally(() => { if (!cancelled) setIsLoadingAllNotes(false); });
+    return () => {
+      cancelled = true;
+      setIsLoadingAllNotes(false);
+    };
+  }, [sort, isListComplete, loadNextPage]);
+  // Downloads a note that is only listed with its preview, or not listed yet at all.
+  const fetchNote = useCallback(async (noteId: string) => {
+    if (!dataKey || !username) return;
+    const fetched = await api<Note>(`/api/notes/${noteId}`);
+    applyServerChanges([await decryptNote(dataKey, fetched)], [], false);
+    if (!fetched.archived) await putCachedNotes(username, [fetched]);
+  }, [dataKey, username, applyServerChanges]);
+  useEffect(() => {
+    if (!activeNoteId || !isActivePreview) return;
+    fetchNote(activeNoteId).catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Not yüklenemedi.', { description: errorMessage });
+    });
+  }, [activeNoteId, isActivePreview, fetchNote]);
+  // Notebooks are small, so they are simply refetched whenever notes are synced.
+  const refreshNotebooks = useCallback(async () => {
+    if (!dataKey || !username) return;
+    try {
+      const fetched = await api<Notebook[]>('/api/notebooks');
+      setNotebooks(await Promise.all(fetched.map(n => decryptName(dataKey, n))));
+      await replaceCachedNotebooks(username, fetched);
+    } catch {
+      // Offline; the cached tree stays in place.
+    }
+  }, [dataKey, username, setNotebooks]);
+  const refreshTags = useCallback(async () => {
+    if (!dataKey || !username) return;
+    try {
+      const fetched = await api<Tag[]>('/api/tags');
+      setTags(await Promise.all(fetched.map(t => decryptName(dataKey, t))));
+      await replaceCachedTags(username, fetched);
+    } catch {
+      // Offline; the cached tags stay in place.
+    }
+  }, [dataKey, username, setTags]);
+  const refreshNoteList = useCallback(async () => {
+    if (!username) return;
+    try {
+      const fetched = await api<NoteListPreferences>('/api/user/note-list');
+      setNoteList(fetched);
+      await replaceCachedNoteList(username, fetched);
+    } catch {
+      // Offline; the cached sort order stays in place.
+    }
+  }, [username, setNoteList]);
+  useEffect(() => {
+    if (!dataKey || !username) return;
+    readCachedNoteList(username)
+      .then(cached => { if (cached && useAppStore.getState().noteList === DEFAULT_NOTE_LIST) setNoteList(cached); })
+      .catch(() => {});
+    readCachedNotebooks(username)
+      .then(cached => Promise.all(cached.map(n => decryptName(dataKey, n))))
+      .then(cached => { if (useAppStore.getState().notebooks.length === 0) setNotebooks(cached); })
+      .catch(() => {});
+    readCachedTags(username)
+      .then(cached => Promise.all(cached.map(t => decryptName(dataKey, t))))
+      .then(cached => { if (useAppStore.getState().tags.length === 0) setTags(cached); })
+      .catch(() => {});
+  }, [dataKey, username, setNotebooks, setTags, setNoteList]);
+  useEffect(() => {
+    const handleOnline = () => {
+      flushPendingSaves().then(syncNotes);
+      refreshNotebooks();
+      refreshTags();
+      refreshNoteList();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      syncNotes();
+      refreshNotebooks();
+      refreshTags();
+      refreshNoteList();
+    };
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [flushPendingSaves, syncNotes, refreshNotebooks, refreshTags, refreshNoteList]);
+  // Notes saved before search existed have no tokens on the server yet; index them once per session.
+  useEffect(() => {
+    if (!dataKey) return;
+    (async () => {
+      try {
+        const missing = await api<string[]>('/api/notes/search/unindexed');
+        for (const noteId of missing) {
+          const { notes: listed, notePreviews: previews } = useAppStore.getState();
+          const loaded = noteId in previews ? undefined : listed.find(n => n.id === noteId);
+          const note = loaded ?? await decryptNote(dataKey, await api<Note>(`/api/notes/${noteId}`));
+          const searchTokens = await buildSearchTokens(dataKey, note.title, note.content);
+          await api(`/api/notes/${noteId}/search-tokens`, { method: 'PUT', body: JSON.stringify({ searchTokens }) });
+        }
+      } catch {
+        // Whatever is left is picked up on the next start.
+      }
+    })();
+  }, [dataKey]);
+  // The archive is fetched whenever it is opened rather than kept in sync.
+  useEffect(() => {
+    if (noteView !== 'archive' || !dataKey) return;
+    let cancelled = false;
+    setIsArchiveLoading(true);
+    api<Note[]>('/api/notes/archived')
+      .then(fetched => Promise.all(fetched.map(n => decryptNote(dataKey, n))))
+      .then(decrypted => { if (!cancelled) setArchivedNotes(decrypted); })
+      .catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+        toast.error('Arşiv yüklenemedi.', { description: errorMessage });
+      })
+      .finally(() => { if (!cancelled) setIsArchiveLoading(false); });
+    return () => { cancelled = true; };
+  }, [noteView, dataKey, setArchivedNotes]);
+  // A restore can add notes anywhere in the list (with their old dates) or replace all of them,
+  // so the list is loaded again from the start and syncing carries on from the restore.
+  const handleRestored = async ({ cursor }: RestoreResult) => {
+    resetNoteList();
+    setArchivedNotes([]);
+    setActiveNoteId(null);
+    if (username) {
+      await replaceCachedNotes(username, []).catch(() => {});
+      await setListProgress(username, { cursor: null, complete: false }).catch(() => {});
+      await setSyncCursor(username, cursor).catch(() => {});
+    }
+    await Promise.all([refreshNotebooks(), refreshTags(), refreshNoteList()]);
+  };
+  return { syncNotes, loadNextPage, fetchNote, refreshNotebooks, refreshTags, refreshNoteList, isArchiveLoading, isLoadingAllNotes, handleRestored };
+}
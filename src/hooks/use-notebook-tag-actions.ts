@@ -0,0 +1,92 @@
+import { toast } from 'sonner';
+import { api } from '@/lib/api-client';
+import { encryptName } from '@/lib/crypto';
+import { childNotebooks } from '@/lib/notebooks';
+import { useAppStore } from '@/hooks/use-app-store';
+import type { Note, Notebook, Tag } from '@shared/types';
+// Runs a notebook or tag change, then reloads that list from the server whether or not it worked.
+const changeAndRefresh = async (errorTitle: string, change: () => Promise<unknown>, refresh: () => Promise<void>) => {
+  try {
+    await change();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+    toast.error(errorTitle, { description: errorMessage });
+  }
+  await refresh();
+};
+interface TagActionsOptions {
+  activeNote: Note | undefined;
+  applyNoteMetadata: (updated: Note) => Promise<void>;
+  refreshTags: () => Promise<void>;
+  syncNotes: () => Promise<void>;
+}
+export function useTagActions({ activeNote, applyNoteMetadata, refreshTags, syncNotes }: TagActionsOptions) {
+  const dataKey = useAppStore(s => s.dataKey);
+  const changeTags = (errorTitle: string, change: () => Promise<unknown>) => changeAndRefresh(errorTitle, change, refreshTags);
+  const handleSetNoteTags = (tagIds: string[]) => changeTags('Etiketler kaydedilemedi.', async () => {
+    if (!activeNote) return;
+    await applyNoteMetadata(await api<Note>(`/api/notes/${activeNote.id}/tags`, { method: 'PUT', body: JSON.stringify({ tags: tagIds }) }));
+  });
+  const handleCreateTag = async (name: string): Promise<Tag | null> => {
+    if (!dataKey) return null;
+    let created: Tag | null = null;
+    await changeTags('Etiket oluşturulamadı.', async () => {
+      created = { ...(await api<Tag>('/api/tags', { method: 'POST', body: JSON.stringify(await encryptName(dataKey, name)) })), name };
+    });
+    return created;
+  };
+  const handleRenameTag = (tagId: string, name: string) => changeTags('Etiket yeniden adlandırılamadı.', async () => {
+    if (!dataKey) return;
+    await api<Tag>(`/api/tags/${tagId}`, { method: 'PUT', body: JSON.stringify(await encryptName(dataKey, name)) });
+  });
+  // Merging and deleting rewrite the tags of notes on the server, so notes are synced afterwards too.
+  const handleMergeTag = (tagId: string, targetId: string) => changeTags('Etiketler birleştirilemedi.', async () => {
+    await api<Tag[]>(`/api/tags/${tagId}/merge`, { method: 'POST', body: JSON.stringify({ targetId }) });
+    await syncNotes();
+    toast.success('Etiketler birleştirildi.');
+  });
+  const handleDeleteTag = (tagId: string) => changeTags('Etiket silinemedi.', async () => {
+    await api(`/api/tags/${tagId}`, { method: 'DELETE' });
+    await syncNotes();
+    toast.success('Etiket silindi.');
+  });
+  return { handleSetNoteTags, handleCreateTag, handleRenameTag, handleMergeTag, handleDeleteTag };
+}
+interface NotebookActionsOptions {
+  refreshNotebooks: () => Promise<void>;
+  syncNotes: () => Promise<void>;
+}
+export function useNotebookActions({ refreshNotebooks, syncNotes }: NotebookActionsOptions) {
+  const dataKey = useAppStore(s => s.dataKey);
+  const notebooks = useAppStore(s => s.notebooks);
+  const changeNotebooks = (errorTitle: string, change: () => Promise<unknown>) => changeAndRefresh(errorTitle, change, refreshNotebooks);
+  const handleCreateNotebook = (parentId: string | null, name: string) => changeNotebooks('Defter oluşturulamadı.', async () => {
+    if (!dataKey) return;
+    await api<Notebook>('/api/notebooks', { method: 'POST', body: JSON.stringify({ ...(await encryptName(dataKey, name)), parentId }) });
+  });
+  const handleRenameNotebook = (notebookId: string, name: string) => changeNotebooks('Defter yeniden adlandırılamadı.', async () => {
+    if (!dataKey) return;
+    await api<Notebook>(`/api/notebooks/${notebookId}`, { method: 'PUT', body: JSON.stringify(await encryptName(dataKey, name)) });
+  });
+  const handleMoveNotebook = (notebookId: string, parentId: string | null) => changeNotebooks('Defter taşınamadı.', () =>
+    api<Notebook>(`/api/notebooks/${notebookId}`, { method: 'PUT', body: JSON.stringify({ parentId }) })
+  );
+  // Swaps the notebook with its neighbour, then renumbers the siblings whose position changed.
+  const handleReorderNotebook = (notebookId: string, direction: -1 | 1) => changeNotebooks('Defter sırası değiştirilemedi.', async () => {
+    const notebook = notebooks.find(n => n.id === notebookId);
+    if (!notebook) return;
+    const siblings = childNotebooks(notebooks, notebook.parentId);
+    const index = siblings.findIndex(n => n.id === notebookId);
+    const target = index + direction;
+    if (target < 0 || target >= siblings.length) return;
+    [siblings[index], siblings[target]] = [siblings[target], siblings[index]];
+    await Promise.all(siblings.map((n, order) => n.order === order ? null : api(`/api/notebooks/${n.id}`, { method: 'PUT', body: JSON.stringify({ order }) })));
+  });
+  // Deleting moves the notebook's notes up a level on the server, so notes are synced afterwards too.
+  const handleDeleteNotebook = (notebookId: string) => changeNotebooks('Defter silinemedi.', async () => {
+    await api(`/api/notebooks/${notebookId}`, { method: 'DELETE' });
+    await syncNotes();
+    toast.success('Defter silindi.');
+  });
+  return { handleCreateNotebook, handleRenameNotebook, handleMoveNotebook, handleReorderNotebook, handleDeleteNotebook };
+}
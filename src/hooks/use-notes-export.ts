@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { api } from '@/lib/api-client';
+import { decryptNote } from '@/lib/crypto';
+import { exportNotesToZip } from '@/lib/note-export';
+import { useAppStore } from '@/hooks/use-app-store';
+import type { Note } from '@shared/types';
+
+// Downloads every note (except the trash) as a ZIP of Markdown files. Notes are decrypted here,
+// so the export is readable without VaultNote or the password.
+export function useNotesExport() {
+  const username = useAppStore(s => s.username);
+  const dataKey = useAppStore(s => s.dataKey);
+  const tags = useAppStore(s => s.tags);
+  const notebooks = useAppStore(s => s.notebooks);
+  const [isExporting, setIsExporting] = useState(false);
+  const handleExport = async () => {
+    if (!dataKey || !username) return;
+    setIsExporting(true);
+    try {
+      const fetched = await api<Note[]>('/api/notes/export');
+      const notes = await Promise.all(fetched.map(n => decryptNote(dataKey, n)));
+      const url = URL.createObjectURL(exportNotesToZip(notes, tags, notebooks));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vaultnote-${username}-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      toast.success('Notlar dışa aktarıldı.', { description: `${notes.length} not indirildi.` });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Bilinmeyen bir hata oluştu.';
+      toast.error('Notlar dışa aktarılamadı.', { description: errorMessage });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+  return { handleExport, isExporting };
+}
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { api, ApiError } from './api-client';
+
+function respondWith(response: Response) {
+  vi.stubGlobal('fetch', vi.fn(async () => response));
+}
+
+describe('api', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the data of a successful envelope', async () => {
+    respondWith(Response.json({ success: true, data: { id: 'a' } }));
+    await expect(api('/api/x')).resolves.toEqual({ id: 'a' });
+  });
+
+  it('raises the error and payload of a failed envelope', async () => {
+    respondWith(Response.json({ success: false, error: 'Çakışma', data: { version: 3 } }, { status: 409 }));
+    const error = await api('/api/x').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ message: 'Çakışma', status: 409, data: { version: 3 } });
+  });
+
+  it('raises a server error that is not JSON as an ApiError, not a parse error', async () => {
+    respondWith(new Response('<html>Bad Gateway</html>', { status: 502, statusText: 'Bad Gateway', headers: { 'Content-Type': 'text/html' } }));
+    const error = await api('/api/x').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ message: 'Bad Gateway', status: 502 });
+  });
+
+  it('raises a truncated JSON body as an ApiError', async () => {
+    respondWith(new Response('{"success":tr', { status: 500, headers: { 'Content-Type': 'application/json' } }));
+    await expect(api('/api/x')).rejects.toBeInstanceOf(ApiError);
+  });
+});
@@ -1,8 +1,56 @@
 import { ApiResponse } from "../../shared/types"
 
+// Thrown for any non-successful response. `data` carries the envelope's payload
+// for errors that come with one (e.g. the retry time of a 429).
+export class ApiError<D = unknown> extends Error {
+  constructor(message: string, public readonly status: number, public readonly data?: D) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+let authToken: string | null = null
+let onUnauthorized: (() => void) | null = null
+// The last response to each GET that came with an ETag. The next GET of the same path sends
+// `If-None-Match`, and a 304 is answered from here instead of downloading the body again.
+const etagCache = new Map<string, { etag: string; data: unknown }>()
+
+// Sets the session token sent as `Authorization: Bearer` on every request.
+// `onExpired` runs when the server rejects the token with 401.
+export function setAuthToken(token: string | null, onExpired?: () => void) {
+  if (token !== authToken) etagCache.clear()
+  authToken = token
+  onUnauthorized = onExpired ?? null
+}
+
+// Bodies that are not our JSON envelope (a proxy's HTML error page, a truncated response) become
+// an ApiError with the HTTP status, so callers can tell a server error from not reaching the server.
+async function readEnvelope<T>(res: Response): Promise<ApiResponse<T>> {
+  const fallback: ApiResponse<T> = { success: false, error: res.statusText || 'Request failed' }
+  if (!res.headers.get('Content-Type')?.includes('application/json')) return fallback
+  try {
+    return (await res.json()) as ApiResponse<T>
+  } catch {
+    return fallback
+  }
+}
+
 export async function api<T>(path: string, init?: RequestInit): Promise<T> {
-  const res = await fetch(path, { headers: { 'Content-Type': 'application/json' }, ...init })
-  const json = (await res.json()) as ApiResponse<T>
-  if (!res.ok || !json.success || json.data === undefined) throw new Error(json.error || 'Request failed')
+  const headers = new Headers(init?.headers)
+  if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json')
+  if (authToken && !headers.has('Authorization')) headers.set('Authorization', `Bearer ${authToken}`)
+  const isGet = (init?.method ?? 'GET').toUpperCase() === 'GET'
+  const cached = isGet ? etagCache.get(path) : undefined
+  if (cached && !headers.has('If-None-Match')) headers.set('If-None-Match', cached.etag)
+  const res = await fetch(path, { ...init, headers })
+  if (res.status === 304) {
+    if (cached) return cached.data as T
+    throw new ApiError('Not modified', 304)
+  }
+  const json = await readEnvelope<T>(res)
+  if (res.status === 401 && authToken && onUnauthorized) onUnauthorized()
+  if (!res.ok || !json.success || json.data === undefined) throw new ApiError(json.error || 'Request failed', res.status, json.data)
+  const etag = res.headers.get('ETag')
+  if (isGet && etag) etagCache.set(path, { etag, data: json.data })
   return json.data
-}
\ No newline at end of file
+}
@@ -0,0 +1,74 @@
+import { decryptName, decryptNote, decryptWithPassphrase, encryptName, encryptWithPassphrase, fromBase64, toBase64 } from '@/lib/crypto';
+import type { PassphraseCiphertext } from '@/lib/crypto';
+import { encryptNoteText } from '@/lib/note-preview';
+import { BACKUP_VERSION } from '@shared/types';
+import type { AccountBackup, NoteListPreferences, RestoreMode, RestoredNote, RestoreRequest } from '@shared/types';
+// A backup file: the account as returned by GET /api/user/backup together with the data key that
+// decrypts it, all encrypted with a passphrase chosen for the backup. Without the passphrase the
+// file is useless, but it does not depend on the account password either.
+export interface BackupFile extends PassphraseCiphertext {
+  app: 'VaultNote';
+  kind: 'backup';
+  version: number;
+  createdAt: string;
+}
+interface BackupContents {
+  dataKey: string; // base64
+  account: AccountBackup;
+}
+export interface OpenedBackup {
+  dataKey: Uint8Array;
+  account: AccountBackup;
+}
+export async function createBackupFile(dataKey: Uint8Array, account: AccountBackup, passphrase: string): Promise<Blob> {
+  const contents: BackupContents = { dataKey: toBase64(dataKey), account };
+  const file: BackupFile = { app: 'VaultNote', kind: 'backup', version: BACKUP_VERSION, createdAt: account.createdAt, ...(await encryptWithPassphrase(passphrase, contents)) };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+}
+export async function openBackupFile(file: File, passphrase: string): Promise<OpenedBackup> {
+  let parsed: Partial<BackupFile>;
+  try {
+    parsed = JSON.parse(await file.text()) as Partial<BackupFile>;
+  } catch {
+    throw new Error('Bu dosya bir VaultNote yedeği değil.');
+  }
+  if (parsed.app !== 'VaultNote' || parsed.kind !== 'backup') throw new Error('Bu dosya bir VaultNote yedeği değil.');
+  if (parsed.version !== BACKUP_VERSION) throw new Error('Bu yedeğin sürümü desteklenmiyor.');
+  let contents: BackupContents;
+  try {
+    contents = await decryptWithPassphrase<BackupContents>(passphrase, parsed as BackupFile);
+  } catch {
+    throw new Error('Parola yanlış veya yedek dosyası bozuk.');
+  }
+  return { dataKey: fromBase64(contents.dataKey), account: contents.account };
+}
+export interface PreparedRestore {
+  request: RestoreRequest;
+  notes: RestoredNote[]; // still with the backup's notebook ids
+  noteList: NoteListPreferences; // in backup ids
+}
+// Decrypts the backup with its own data key and encrypts it again with the account's current one,
+// which differs when the backup comes from another account (or a vault that was set up again).
+// Everything is done before the first request, so a backup that cannot be read changes nothing.
+export async function prepareRestore({ dataKey: backupKey, account }: OpenedBackup, dataKey: Uint8Array, mode: RestoreMode): Promise<PreparedRestore> {
+  const notes = await Promise.all(account.notes.map(async (stored) => {
+    const { title, content } = await decryptNote(backupKey, stored);
+    const { encrypted, searchTokens, preview } = await encryptNoteText(dataKey, title, content);
+    const { version: _version, contentVersion: _contentVersion, ...note } = stored;
+    return { ...note, title: '', content: '', ...encrypted, preview, searchTokens };
+  }));
+  const reencryptName = async <T extends { name: string }>(item: T): Promise<T> => {
+    const { name } = await decryptName(backupKey, item);
+    return { ...item, name: '', ...(await encryptName(dataKey, name)) };
+  };
+  return {
+    request: {
+      version: account.version,
+      mode,
+      notebooks: await Promise.all(account.notebooks.map(reencryptName)),
+      tags: await Promise.all(account.tags.map(reencryptName)),
+    },
+    notes,
+    noteList: account.noteList,
+  };
+}
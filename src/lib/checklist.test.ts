@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { checklistProgress, moveCompletedToBottom, parseChecklistLine, toggleChecklistLine } from './checklist';
+
+describe('parseChecklistLine', () => {
+  it('reads the indent, state and text', () => {
+    expect(parseChecklistLine('  * [X] bitti')).toEqual({ indent: 2, checked: true, text: 'bitti' });
+    expect(parseChecklistLine('+ [ ] ')).toEqual({ indent: 0, checked: false, text: '' });
+  });
+
+  it('ignores other lines', () => {
+    expect(parseChecklistLine('- düz madde')).toBeNull();
+    expect(parseChecklistLine('[ ] işaretsiz')).toBeNull();
+  });
+});
+
+describe('toggleChecklistLine', () => {
+  const content = '# Liste\n- [ ] süt\n- [x] ekmek\nnot';
+
+  it('checks an unchecked item', () => {
+    expect(toggleChecklistLine(content, 1)).toBe('# Liste\n- [x] süt\n- [x] ekmek\nnot');
+  });
+
+  it('unchecks a checked item', () => {
+    expect(toggleChecklistLine(content, 2)).toBe('# Liste\n- [ ] süt\n- [ ] ekmek\nnot');
+  });
+
+  it('only touches the box, not brackets in the text', () => {
+    expect(toggleChecklistLine('- [ ] [ ] kutusunu anlat', 0)).toBe('- [x] [ ] kutusunu anlat');
+  });
+
+  it('leaves the content alone for lines that are not items', () => {
+    expect(toggleChecklistLine(content, 0)).toBe(content);
+    expect(toggleChecklistLine(content, 3)).toBe(content);
+    expect(toggleChecklistLine(content, 10)).toBe(content);
+  });
+});
+
+describe('checklistProgress', () => {
+  it('counts checked and all items', () => {
+    expect(checklistProgress('- [ ] a\n- [x] b\n  - [X] c\nd')).toEqual({ done: 2, total: 3 });
+    expect(checklistProgress('metin')).toEqual({ done: 0, total: 0 });
+  });
+});
+
+describe('moveCompletedToBottom', () => {
+  it('moves checked items below unchecked ones, keeping their order', () => {
+    expect(moveCompletedToBottom('- [x] a\n- [ ] b\n- [x] c\n- [ ] d')).toBe('- [ ] b\n- [ ] d\n- [x] a\n- [x] c');
+  });
+
+  it('moves nested lines with their parent', () => {
+    expect(moveCompletedToBottom('- [x] a\n  - [ ] a1\n  ayrıntı\n- [ ] b')).toBe('- [ ] b\n- [x] a\n  - [ ] a1\n  ayrıntı');
+  });
+
+  it('keeps separate lists separate', () => {
+    expect(moveCompletedToBottom('- [x] a\n- [ ] b\n\n- [x] c\n- [ ] d')).toBe('- [ ] b\n- [x] a\n\n- [ ] d\n- [x] c');
+  });
+});
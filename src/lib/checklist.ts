@@ -0,0 +1,54 @@
+// Checklist lines in note content: `- [ ] todo` / `- [x] done` (also with `*` or `+`, and indented for nesting).
+// Lines are addressed by their 0-based index in the content, which is also what the Markdown preview reports.
+const CHECKLIST_LINE = /^(\s*)[-*+]\s+\[([ xX])\]\s?(.*)$/;
+export interface ChecklistItem {
+  indent: number;
+  checked: boolean;
+  text: string;
+}
+export function parseChecklistLine(line: string): ChecklistItem | null {
+  const match = line.match(CHECKLIST_LINE);
+  return match ? { indent: match[1].length, checked: match[2] !== ' ', text: match[3] } : null;
+}
+export function checklistProgress(content: string): { done: number; total: number } {
+  let done = 0;
+  let total = 0;
+  for (const line of content.split('\n')) {
+    const item = parseChecklistLine(line);
+    if (!item) continue;
+    total++;
+    if (item.checked) done++;
+  }
+  return { done, total };
+}
+export function toggleChecklistLine(content: string, lineIndex: number): string {
+  const lines = content.split('\n');
+  const item = parseChecklistLine(lines[lineIndex] ?? '');
+  if (!item) return content;
+  lines[lineIndex] = lines[lineIndex].replace(/\[([ xX])\]/, item.checked ? '[ ]' : '[x]');
+  return lines.join('\n');
+}
+// Within each run of consecutive checklist items, moves the checked ones below the unchecked ones.
+// An item keeps the more deeply indented lines under it, so nested sub-items move with their parent.
+export function moveCompletedToBottom(content: string): string {
+  const lines = content.split('\n');
+  const result: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const first = parseChecklistLine(lines[i]);
+    if (!first) {
+      result.push(lines[i++]);
+      continue;
+    }
+    const units: { checked: boolean; lines: string[] }[] = [];
+    while (i < lines.length) {
+      const item = parseChecklistLine(lines[i]);
+      if (!item || item.indent !== first.indent) break;
+      const unit = { checked: item.checked, lines: [lines[i++]] };
+      while (i < lines.length && lines[i].trim() !== '' && lines[i].search(/\S/) > first.indent) unit.lines.push(lines[i++]);
+      units.push(unit);
+    }
+    for (const unit of [...units.filter(u => !u.checked), ...units.filter(u => u.checked)]) result.push(...unit.lines);
+  }
+  return result.join('\n');
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { decryptContent, decryptForDevice, decryptName, decryptWithPassphrase, deriveLoginSecret, encryptForDevice, encryptName, encryptNote, encryptWithPassphrase, fromBase64, generateDataKey, toBase64, unwrapDataKey, wrapDataKey } from './crypto';
+
+describe('base64', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('login secret', () => {
+  it('is the same for the same password and username in any case', async () => {
+    expect(await deriveLoginSecret('doğru şifre', 'Ayşe')).toBe(await deriveLoginSecret('doğru şifre', 'ayşe'));
+  });
+
+  it('differs per password and per username, and is not the password', async () => {
+    const secret = await deriveLoginSecret('doğru şifre', 'ayse');
+    expect(secret).toMatch(/^[A-Za-z0-9+/]{43}=$/);
+    expect(secret).not.toBe(await deriveLoginSecret('yanlış şifre', 'ayse'));
+    expect(secret).not.toBe(await deriveLoginSecret('doğru şifre', 'mehmet'));
+  });
+});
+
+describe('data key', () => {
+  it('unwraps with the password it was wrapped with', async () => {
+    const dataKey = generateDataKey();
+    const vaultKey = await wrapDataKey(dataKey, 'doğru şifre');
+    expect(await unwrapDataKey(vaultKey, 'doğru şifre')).toEqual(dataKey);
+  });
+
+  it('does not unwrap with another password', async () => {
+    const vaultKey = await wrapDataKey(generateDataKey(), 'doğru şifre');
+    await expect(unwrapDataKey(vaultKey, 'yanlış şifre')).rejects.toThrow();
+  });
+});
+
+describe('notes', () => {
+  const plain = { title: 'Alışveriş', content: '- [ ] süt\n- [x] ekmek 🍞' };
+
+  it('decrypt to what was encrypted', async () => {
+    const dataKey = generateDataKey();
+    expect(await decryptContent(dataKey, await encryptNote(dataKey, plain))).toEqual(plain);
+  });
+
+  it('use a fresh salt and IV every time', async () => {
+    const dataKey = generateDataKey();
+    const first = await encryptNote(dataKey, plain);
+    const second = await encryptNote(dataKey, plain);
+    expect(second.ciphertext).not.toBe(first.ciphertext);
+    expect(second.iv).not.toBe(first.iv);
+  });
+
+  it('cannot be read with another data key', async () => {
+    const encrypted = await encryptNote(generateDataKey(), plain);
+    await expect(decryptContent(generateDataKey(), encrypted)).rejects.toThrow();
+  });
+
+  it('cannot be altered unnoticed', async () => {
+    const dataKey = generateDataKey();
+    const encrypted = await encryptNote(dataKey, plain);
+    const bytes = fromBase64(encrypted.ciphertext);
+    bytes[0] ^= 1;
+    await expect(decryptContent(dataKey, { ...encrypted, ciphertext: toBase64(bytes) })).rejects.toThrow();
+  });
+});
+
+describe('names', () => {
+  it('decrypt into the item they belong to', async () => {
+    const dataKey = generateDataKey();
+    const encrypted = await encryptName(dataKey, 'İş');
+    expect(await decryptName(dataKey, { id: 't1', name: '', ...encrypted })).toMatchObject({ id: 't1', name: 'İş' });
+  });
+});
+
+describe('passphrase', () => {
+  it('round-trips a payload', async () => {
+    const payload = { notes: [{ id: 'n1', title: 'Başlık' }], version: 1 };
+    expect(await decryptWithPassphrase(' parola ', await encryptWithPassphrase(' parola ', payload))).toEqual(payload);
+  });
+
+  it('refuses another passphrase', async () => {
+    const encrypted = await encryptWithPassphrase('parola', { a: 1 });
+    await expect(decryptWithPassphrase('Parola', encrypted)).rejects.toThrow();
+  });
+});
+
+describe('device key', () => {
+  it('round-trips a payload with a key that cannot be exported', async () => {
+    const encrypted = await encryptForDevice({ token: 'abc', dataKey: 'xyz' });
+    expect(encrypted.key.extractable).toBe(false);
+    await expect(crypto.subtle.exportKey('raw', encrypted.key)).rejects.toThrow();
+    expect(await decryptForDevice(encrypted)).toEqual({ token: 'abc', dataKey: 'xyz' });
+  });
+});
@@ -0,0 +1,172 @@
+import type { Note, NoteCiphertext, NotePreview, VaultKey } from "@shared/types";
+// Client-side end-to-end encryption for notes.
+// A random 256-bit data key encrypts every note; the data key itself is wrapped with a
+// PBKDF2 key derived from the password, so changing the password only re-wraps one key.
+const PBKDF2_ITERATIONS = 310_000;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+async function derivePasswordKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+async function deriveNoteKey(dataKey: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', dataKey, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', salt, info: encoder.encode('vaultnote-note'), hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+// Separate HMAC key for blind search tokens, so the server can match words without learning them.
+const searchKeys = new WeakMap<Uint8Array, Promise<CryptoKey>>();
+function deriveSearchKey(dataKey: Uint8Array): Promise<CryptoKey> {
+  let key = searchKeys.get(dataKey);
+  if (!key) {
+    key = crypto.subtle.importKey('raw', dataKey, 'HKDF', false, ['deriveKey']).then(material => crypto.subtle.deriveKey(
+      { name: 'HKDF', salt: new Uint8Array(0), info: encoder.encode('vaultnote-search'), hash: 'SHA-256' },
+      material,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign']
+    ));
+    searchKeys.set(dataKey, key);
+  }
+  return key;
+}
+// Returns the first 128 bits of HMAC(value) as hex, one token per value.
+export async function blindTokens(dataKey: Uint8Array, values: string[]): Promise<string[]> {
+  const key = await deriveSearchKey(dataKey);
+  return Promise.all(values.map(async (value) => {
+    const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+    return Array.from(mac.subarray(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+  }));
+}
+// What is sent to the server in place of the password. PBKDF2 with a salt of its own, made from the
+// username so it can be computed before anything is fetched; the key that wraps the data key uses a
+// random salt, so the server cannot get from one to the other.
+export async function deriveLoginSecret(password: string, username: string): Promise<string> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const salt = encoder.encode(`vaultnote-login:${username.toLowerCase()}`);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' }, material, 256);
+  return toBase64(new Uint8Array(bits));
+}
+export function generateDataKey(): Uint8Array {
+  return randomBytes(32);
+}
+export async function wrapDataKey(dataKey: Uint8Array, password: string): Promise<VaultKey> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const passwordKey = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, passwordKey, dataKey);
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), wrappedKey: toBase64(new Uint8Array(wrapped)) };
+}
+// Throws if the password does not match the one the key was wrapped with.
+export async function unwrapDataKey(vaultKey: VaultKey, password: string): Promise<Uint8Array> {
+  const passwordKey = await derivePasswordKey(password, fromBase64(vaultKey.salt), vaultKey.iterations);
+  const raw = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vaultKey.iv) }, passwordKey, fromBase64(vaultKey.wrappedKey));
+  return new Uint8Array(raw);
+}
+async function encryptPayload(dataKey: Uint8Array, payload: unknown): Promise<NoteCiphertext> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await deriveNoteKey(dataKey, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(payload)));
+  return { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv), salt: toBase64(salt) };
+}
+async function decryptPayload<T>(dataKey: Uint8Array, encrypted: NoteCiphertext): Promise<T> {
+  const key = await deriveNoteKey(dataKey, fromBase64(encrypted.salt));
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.ciphertext));
+  return JSON.parse(decoder.decode(plain)) as T;
+}
+export function encryptNote(dataKey: Uint8Array, plain: { title: string; content: string }): Promise<NoteCiphertext> {
+  return encryptPayload(dataKey, { title: plain.title, content: plain.content });
+}
+export function isEncrypted(note: Note): note is Note & NoteCiphertext {
+  return typeof note.ciphertext === 'string' && typeof note.iv === 'string' && typeof note.salt === 'string';
+}
+export async function decryptContent(dataKey: Uint8Array, encrypted: NoteCiphertext): Promise<{ title: string; content: string }> {
+  const { title, content } = await decryptPayload<{ title: string; content: string }>(dataKey, encrypted);
+  return { title, content };
+}
+// Returns the note with its plaintext title and content filled in.
+// Notes saved before encryption existed are returned as-is.
+export async function decryptNote(dataKey: Uint8Array, note: Note): Promise<Note> {
+  if (!isEncrypted(note)) return note;
+  return { ...note, ...(await decryptContent(dataKey, note)) };
+}
+// The list preview of a note (see NotePreview) is encrypted the same way as the note itself.
+export function encryptPreview(dataKey: Uint8Array, preview: NotePreview): Promise<NoteCiphertext> {
+  return encryptPayload(dataKey, preview);
+}
+export function decryptPreview(dataKey: Uint8Array, encrypted: NoteCiphertext): Promise<NotePreview> {
+  return decryptPayload<NotePreview>(dataKey, encrypted);
+}
+// Notebook and tag names are encrypted the same way as notes.
+export function encryptName(dataKey: Uint8Array, name: string): Promise<NoteCiphertext> {
+  return encryptPayload(dataKey, { name });
+}
+export async function decryptName<T extends { name: string } & Partial<NoteCiphertext>>(dataKey: Uint8Array, item: T): Promise<T> {
+  if (!item.ciphertext || !item.iv || !item.salt) return item;
+  const { name } = await decryptPayload<{ name: string }>(dataKey, { ciphertext: item.ciphertext, iv: item.iv, salt: item.salt });
+  return { ...item, name };
+}
+// Data encrypted with a passphrase rather than the data key, for files that leave the app (backups).
+export interface PassphraseCiphertext {
+  salt: string; // base64 PBKDF2 salt
+  iterations: number;
+  iv: string; // base64
+  ciphertext: string; // base64 AES-GCM output of the JSON payload
+}
+export async function encryptWithPassphrase(passphrase: string, payload: unknown): Promise<PassphraseCiphertext> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await derivePasswordKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(payload)));
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+// Throws if the passphrase is wrong or the data was altered.
+export async function decryptWithPassphrase<T>(passphrase: string, encrypted: PassphraseCiphertext): Promise<T> {
+  const key = await derivePasswordKey(passphrase, fromBase64(encrypted.salt), encrypted.iterations);
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.ciphertext));
+  return JSON.parse(decoder.decode(plain)) as T;
+}
+// Data encrypted with a key the browser generated and stored next to it in IndexedDB. The key is
+// non-extractable, which only stops page scripts from exporting its bytes: they can still ask the
+// browser to decrypt with it, and the key itself sits in the same IndexedDB files as the ciphertext.
+export interface DeviceCiphertext {
+  key: CryptoKey;
+  iv: string; // base64
+  ciphertext: string; // base64 AES-GCM output of the JSON payload
+}
+export async function encryptForDevice(payload: unknown): Promise<DeviceCiphertext> {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(payload)));
+  return { key, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+export async function decryptForDevice<T>(encrypted: DeviceCiphertext): Promise<T> {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, encrypted.key, fromBase64(encrypted.ciphertext));
+  return JSON.parse(decoder.decode(plain)) as T;
+}
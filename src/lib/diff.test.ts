@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff';
+
+describe('diffLines', () => {
+  it('marks identical texts as unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([{ type: 'same', text: 'a' }, { type: 'same', text: 'b' }]);
+  });
+
+  it('finds added, removed and changed lines', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nD\nd\ne')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'D' },
+      { type: 'same', text: 'd' },
+      { type: 'added', text: 'e' },
+    ]);
+  });
+
+  it('treats an empty text as one empty line', () => {
+    expect(diffLines('', 'a')).toEqual([{ type: 'removed', text: '' }, { type: 'added', text: 'a' }]);
+  });
+
+  it('compares long texts with a small change', () => {
+    const lines = Array.from({ length: 5000 }, (_, i) => `satır ${i}`);
+    const changed = [...lines];
+    changed[2500] = 'değişti';
+    const diff = diffLines(lines.join('\n'), changed.join('\n'));
+    expect(diff?.filter(line => line.type !== 'same')).toEqual([
+      { type: 'removed', text: 'satır 2500' },
+      { type: 'added', text: 'değişti' },
+    ]);
+    expect(diff).toHaveLength(5001);
+  });
+
+  it('gives up when the changed part is too large to compare', () => {
+    const before = Array.from({ length: 2500 }, (_, i) => `eski ${i}`).join('\n');
+    const after = Array.from({ length: 2500 }, (_, i) => `yeni ${i}`).join('\n');
+    expect(diffLines(before, after)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+// Above this many cells the longest-common-subsequence table would take too much memory and time
+// (a 2000 x 2000 line change is already 4 million cells), so such versions are not compared.
+const MAX_DIFF_CELLS = 4_000_000;
+// Line-based diff using a longest-common-subsequence table. Lines both versions start or end with are
+// matched up front, so only the changed middle needs the O(n*m) table. Returns null if that middle
+// is too large to compare.
+export function diffLines(before: string, after: string): DiffLine[] | null {
+  const allA = before.split('\n');
+  const allB = after.split('\n');
+  let start = 0;
+  while (start < allA.length && start < allB.length && allA[start] === allB[start]) start++;
+  let end = 0;
+  while (end < allA.length - start && end < allB.length - start && allA[allA.length - 1 - end] === allB[allB.length - 1 - end]) end++;
+  const a = allA.slice(start, allA.length - end);
+  const b = allB.slice(start, allB.length - end);
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) return null;
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const result: DiffLine[] = allA.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+  for (const text of allA.slice(allA.length - end)) result.push({ type: 'same', text });
+  return result;
+}
@@ -0,0 +1,138 @@
+import type { Note, Notebook, NoteListPreferences, Tag } from "@shared/types";
+import { decryptForDevice, encryptForDevice, fromBase64, toBase64 } from "@/lib/crypto";
+import type { DeviceCiphertext } from "@/lib/crypto";
+// Local IndexedDB replica of a user's notes, so the app can start without a network round trip.
+// Notes are stored exactly as the server returns them (encrypted), which for notes that were
+// only listed and never opened means just the summary. The session token and the
+// unwrapped data key are kept here too, encrypted with a non-extractable device key, which is
+// what lets a reload skip the password prompt; logging out deletes the whole database.
+const DB_VERSION = 1;
+const NOTES = 'notes';
+const META = 'meta';
+const LAST_USER_KEY = 'vaultnote:last-user';
+export interface CachedSession {
+  username: string;
+  token: string;
+  dataKey: Uint8Array;
+}
+const dbName = (username: string) => `vaultnote:${username.toLowerCase()}`;
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+function openDb(username: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName(username), DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(NOTES, { keyPath: 'id' });
+      request.result.createObjectStore(META);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+// Runs `fn` in a transaction and resolves once it has committed.
+async function withStore<T>(username: string, storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T> | T): Promise<T> {
+  const db = await openDb(username);
+  try {
+    const tx = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    const result = await fn(tx.objectStore(storeName));
+    await done;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+export function readCachedNotes(username: string): Promise<Note[]> {
+  return withStore(username, NOTES, 'readonly', store => promisify(store.getAll() as IDBRequest<Note[]>));
+}
+export function putCachedNotes(username: string, notes: Note[]): Promise<void> {
+  return withStore(username, NOTES, 'readwrite', store => {
+    // Plaintext fields are blanked so nothing readable reaches disk even if a caller passes a decrypted note.
+    for (const note of notes) store.put({ ...note, title: '', content: '' });
+  });
+}
+export function deleteCachedNotes(username: string, noteIds: string[]): Promise<void> {
+  return withStore(username, NOTES, 'readwrite', store => {
+    for (const id of noteIds) store.delete(id);
+  });
+}
+// Replaces the whole replica, e.g. after login or a full resync.
+export function replaceCachedNotes(username: string, notes: Note[]): Promise<void> {
+  return withStore(username, NOTES, 'readwrite', store => {
+    store.clear();
+    for (const note of notes) store.put({ ...note, title: '', content: '' });
+  });
+}
+export async function readCachedNotebooks(username: string): Promise<Notebook[]> {
+  const value = await withStore(username, META, 'readonly', store => promisify(store.get('notebooks') as IDBRequest<Notebook[] | undefined>));
+  return value ?? [];
+}
+export function replaceCachedNotebooks(username: string, notebooks: Notebook[]): Promise<void> {
+  return withStore(username, META, 'readwrite', store => { store.put(notebooks.map(n => ({ ...n, name: '' })), 'notebooks'); });
+}
+export async function readCachedTags(username: string): Promise<Tag[]> {
+  const value = await withStore(username, META, 'readonly', store => promisify(store.get('tags') as IDBRequest<Tag[] | undefined>));
+  return value ?? [];
+}
+export function replaceCachedTags(username: string, tags: Tag[]): Promise<void> {
+  return withStore(username, META, 'readwrite', store => { store.put(tags.map(t => ({ ...t, name: '' })), 'tags'); });
+}
+export async function readCachedNoteList(username: string): Promise<NoteListPreferences | null> {
+  const value = await withStore(username, META, 'readonly', store => promisify(store.get('noteList') as IDBRequest<NoteListPreferences | undefined>));
+  return value ?? null;
+}
+export function replaceCachedNoteList(username: string, preferences: NoteListPreferences): Promise<void> {
+  return withStore(username, META, 'readwrite', store => { store.put(preferences, 'noteList'); });
+}
+// How far the note list has been paged through GET /api/notes.
+export interface ListProgress {
+  cursor: string | null;
+  complete: boolean;
+}
+export async function readListProgress(username: string): Promise<ListProgress> {
+  const value = await withStore(username, META, 'readonly', store => promisify(store.get('listProgress') as IDBRequest<ListProgress | undefined>));
+  return value ?? { cursor: null, complete: false };
+}
+export function setListProgress(username: string, progress: ListProgress): Promise<void> {
+  return withStore(username, META, 'readwrite', store => { store.put(progress, 'listProgress'); });
+}
+// Where the last sync left off in the server's change log. Replicas from before the change log
+// have no cursor, so their first sync reloads the list.
+export async function getSyncCursor(username: string): Promise<number | null> {
+  const value = await withStore(username, META, 'readonly', store => promisify(store.get('syncCursor') as IDBRequest<number | undefined>));
+  return value ?? null;
+}
+export function setSyncCursor(username: string, cursor: number): Promise<void> {
+  return withStore(username, META, 'readwrite', store => { store.put(cursor, 'syncCursor'); });
+}
+export async function saveCachedSession(session: CachedSession): Promise<void> {
+  const sealed = await encryptForDevice({ token: session.token, dataKey: toBase64(session.dataKey) });
+  await withStore(session.username, META, 'readwrite', store => { store.put(sealed, 'session'); });
+  localStorage.setItem(LAST_USER_KEY, session.username);
+}
+// Returns the session of the last user who logged in on this device, if it was not logged out.
+// Sessions cached in the clear by earlier versions are dropped; the password is asked for once more.
+export async function loadCachedSession(): Promise<CachedSession | null> {
+  const username = localStorage.getItem(LAST_USER_KEY);
+  if (!username) return null;
+  const stored = await withStore(username, META, 'readonly', store => promisify(store.get('session') as IDBRequest<Partial<DeviceCiphertext> | undefined>));
+  if (!stored) return null;
+  if (!(stored.key instanceof CryptoKey) || !stored.iv || !stored.ciphertext) {
+    await withStore(username, META, 'readwrite', store => { store.delete('session'); });
+    return null;
+  }
+  const { token, dataKey } = await decryptForDevice<{ token: string; dataKey: string }>(stored as DeviceCiphertext);
+  return { username, token, dataKey: fromBase64(dataKey) };
+}
+export async function clearNoteCache(username: string): Promise<void> {
+  localStorage.removeItem(LAST_USER_KEY);
+  await promisify(indexedDB.deleteDatabase(dbName(username)));
+}
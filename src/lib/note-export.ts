@@ -0,0 +1,71 @@
+import { createZip } from '@/lib/zip';
+import type { ZipEntry } from '@/lib/zip';
+import type { Note, Notebook, Tag } from '@shared/types';
+// Written to `manifest.json` at the root of an export, listing every note with the file it is in.
+export interface ExportManifest {
+  app: 'VaultNote';
+  version: 1;
+  exportedAt: string;
+  notes: {
+    id: string;
+    file: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    tags: string[];
+    notebook: string | null; // path of notebook names, e.g. "İş/Toplantılar"
+    format: 'plain' | 'markdown';
+    archived: boolean;
+  }[];
+}
+// Characters that are not allowed (or cause trouble) in file names on common systems.
+const UNSAFE_FILE_CHARS = /[\\/:*?"<>|\p{Cc}]/gu;
+function fileName(title: string): string {
+  const name = title.replace(UNSAFE_FILE_CHARS, '-').replace(/\s+/g, ' ').trim().slice(0, 80);
+  return name.replace(/^\.+/, '') || 'İsimsiz Not';
+}
+// YAML front matter. Strings are written as JSON strings, which YAML reads as double-quoted scalars.
+export function frontMatter(fields: Record<string, string | string[]>): string {
+  const lines = Object.entries(fields).map(([key, value]) => `${key}: ${Array.isArray(value) ? `[${value.map(v => JSON.stringify(v)).join(', ')}]` : JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n\n`;
+}
+function notebookPath(notebooks: Notebook[], notebookId: string | null | undefined): string | null {
+  const byId = new Map(notebooks.map(n => [n.id, n]));
+  const names: string[] = [];
+  for (let notebook = notebookId ? byId.get(notebookId) : undefined; notebook && names.length < notebooks.length; notebook = notebook.parentId ? byId.get(notebook.parentId) : undefined) {
+    names.unshift(fileName(notebook.name));
+  }
+  return names.length > 0 ? names.join('/') : null;
+}
+// Builds the ZIP of decrypted notes: one `.md` file per note, in folders following the notebooks,
+// plus `manifest.json`. Files that would have the same name get a number appended.
+export function exportNotesToZip(notes: Note[], tags: Tag[], notebooks: Notebook[]): Blob {
+  const encoder = new TextEncoder();
+  const tagNames = new Map(tags.map(t => [t.id, t.name]));
+  const used = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const manifest: ExportManifest = { app: 'VaultNote', version: 1, exportedAt: new Date().toISOString(), notes: [] };
+  for (const note of notes) {
+    const folder = notebookPath(notebooks, note.notebookId);
+    const base = `${folder ? `${folder}/` : ''}${fileName(note.title)}`;
+    let file = `${base}.md`;
+    for (let i = 2; used.has(file.toLowerCase()); i++) file = `${base} (${i}).md`;
+    used.add(file.toLowerCase());
+    const noteTags = (note.tags ?? []).map(id => tagNames.get(id)).filter((name): name is string => !!name);
+    const header = frontMatter({ title: note.title, createdAt: note.createdAt, updatedAt: note.updatedAt, tags: noteTags });
+    entries.push({ name: file, data: encoder.encode(header + note.content), modifiedAt: new Date(note.updatedAt) });
+    manifest.notes.push({
+      id: note.id,
+      file,
+      title: note.title,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      tags: noteTags,
+      notebook: folder,
+      format: note.format ?? 'plain',
+      archived: Boolean(note.archived),
+    });
+  }
+  entries.push({ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+}
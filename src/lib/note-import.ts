@@ -0,0 +1,185 @@
+import { readZip } from '@/lib/zip';
+import type { ExportManifest } from '@/lib/note-export';
+import type { NoteFormat } from '@shared/types';
+// A note read from an imported file, before it is encrypted and uploaded.
+export interface ImportedNote {
+  title: string;
+  content: string;
+  format: NoteFormat;
+  tags: string[]; // tag names; missing tags are created on import
+  createdAt?: string;
+  updatedAt?: string;
+}
+export const IMPORT_FILE_TYPES = '.md,.markdown,.txt,.zip,.enex,.json';
+const baseName = (path: string) => (path.split('/').pop() ?? path).replace(/\.[^.]+$/, '') || 'İsimsiz Not';
+const extension = (path: string) => path.toLowerCase().match(/\.([^./]+)$/)?.[1] ?? '';
+// One front matter value: a JSON/YAML quoted string, a flow list (`[a, "b"]`) or a bare word.
+function parseYamlValue(raw: string): string | string[] {
+  const value = raw.trim();
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const items = value.slice(1, -1).match(/\s*(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)/g) ?? [];
+    return items.map(item => parseYamlValue(item) as string).filter(Boolean);
+  }
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+}
+// Splits YAML front matter off a Markdown file. Only flat `key: value` pairs and block lists
+// (`tags:` followed by `- item` lines) are understood, which is what note apps write.
+export function parseFrontMatter(text: string): { fields: Record<string, string | string[]>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { fields: {}, body: text };
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(parseYamlValue(item[1]) as string);
+      continue;
+    }
+    const pair = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+    if (!pair) continue;
+    listKey = pair[2].trim() === '' ? pair[1] : null;
+    fields[pair[1]] = listKey ? [] : parseYamlValue(pair[2]);
+  }
+  return { fields, body: text.slice(match[0].length).replace(/^\r?\n/, '') };
+}
+const asString = (value: string | string[] | undefined) => (typeof value === 'string' && value ? value : undefined);
+const asList = (value: string | string[] | undefined) => (Array.isArray(value) ? value : typeof value === 'string' && value ? value.split(',').map(v => v.trim()) : []);
+export function parseMarkdown(path: string, text: string): ImportedNote {
+  const { fields, body } = parseFrontMatter(text);
+  return {
+    title: asString(fields.title) ?? baseName(path),
+    content: body,
+    format: 'markdown',
+    tags: asList(fields.tags),
+    createdAt: asString(fields.createdAt) ?? asString(fields.created),
+    updatedAt: asString(fields.updatedAt) ?? asString(fields.updated),
+  };
+}
+export function parsePlainText(path: string, text: string): ImportedNote {
+  return { title: baseName(path), content: text, format: 'plain', tags: [] };
+}
+// Evernote dates look like 20240131T154500Z.
+function parseEnexDate(value: string | null | undefined): string | undefined {
+  const m = value?.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return m ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6])).toISOString() : undefined;
+}
+const ENML_BLOCKS = new Set(['DIV', 'P', 'LI', 'BR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'TR', 'BLOCKQUOTE', 'PRE', 'HR']);
+// Turns ENML (Evernote's XHTML) into plain text. To-do boxes become `- [ ]` checklist lines.
+function enmlToText(enml: string): string {
+  const doc = new DOMParser().parseFromString(enml, 'text/html');
+  let text = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent?.replace(/\s+/g, ' ') ?? '';
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    const tag = node.tagName.toUpperCase();
+    if (tag === 'EN-TODO') {
+      text += node.getAttribute('checked') === 'true' ? '- [x] ' : '- [ ] ';
+      return;
+    }
+    if (tag === 'EN-MEDIA') return;
+    if (ENML_BLOCKS.has(tag) && text && !text.endsWith('\n')) text += '\n';
+    if (tag === 'LI') text += '- ';
+    node.childNodes.forEach(walk);
+    if (ENML_BLOCKS.has(tag) && !text.endsWith('\n')) text += '\n';
+  };
+  walk(doc.body);
+  return text.split('\n').map(line => line.trimEnd()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+// Evernote export: any number of <note> elements with title, ENML content, dates and tags.
+// Attachments (en-media) are left out.
+export function parseEnex(text: string): ImportedNote[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('ENEX dosyası okunamadı.');
+  return [...doc.getElementsByTagName('note')].map(note => {
+    const child = (name: string) => note.getElementsByTagName(name)[0]?.textContent ?? null;
+    return {
+      title: child('title')?.trim() || 'İsimsiz Not',
+      content: enmlToText(child('content') ?? ''),
+      format: 'plain' as const,
+      tags: [...note.getElementsByTagName('tag')].map(t => t.textContent?.trim() ?? '').filter(Boolean),
+      createdAt: parseEnexDate(child('created')),
+      updatedAt: parseEnexDate(child('updated')),
+    };
+  });
+}
+// JSON: an array of notes, or an object with a `notes` array, where each note has at least
+// `title` or `content` and may have `createdAt`, `updatedAt`, `tags` (names) and `format`.
+export function parseJson(text: string): ImportedNote[] {
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : (parsed as { notes?: unknown })?.notes;
+  if (!Array.isArray(list)) throw new Error('JSON dosyasında not listesi bulunamadı.');
+  return list.flatMap((item: Record<string, unknown>) => {
+    if (typeof item !== 'object' || item === null) return [];
+    const title = typeof item.title === 'string' ? item.title : '';
+    const content = typeof item.content === 'string' ? item.content : '';
+    if (!title && !content) return [];
+    return [{
+      title: title || 'İsimsiz Not',
+      content,
+      format: item.format === 'markdown' ? 'markdown' as const : 'plain' as const,
+      tags: Array.isArray(item.tags) ? item.tags.filter((t): t is string => typeof t === 'string') : [],
+      createdAt: typeof item.createdAt === 'string' ? item.createdAt : undefined,
+      updatedAt: typeof item.updatedAt === 'string' ? item.updatedAt : undefined,
+    }];
+  });
+}
+// Every .md and .txt file in the archive. A VaultNote export's manifest.json supplies the details
+// front matter cannot carry (the note format).
+async function parseZip(buffer: ArrayBuffer): Promise<ImportedNote[]> {
+  const entries = await readZip(buffer);
+  const decoder = new TextDecoder();
+  const manifestEntry = entries.find(e => e.name === 'manifest.json');
+  let formats = new Map<string, NoteFormat>();
+  if (manifestEntry) {
+    try {
+      const manifest = JSON.parse(decoder.decode(manifestEntry.data)) as ExportManifest;
+      formats = new Map(manifest.notes.map(n => [n.file, n.format]));
+    } catch {
+      // Not one of ours; the files are imported without it.
+    }
+  }
+  return entries.flatMap(entry => {
+    const ext = extension(entry.name);
+    if (entry.name.startsWith('__MACOSX/')) return [];
+    const text = decoder.decode(entry.data);
+    if (ext === 'md' || ext === 'markdown') {
+      const note = parseMarkdown(entry.name, text);
+      return [{ ...note, format: formats.get(entry.name) ?? note.format, updatedAt: note.updatedAt ?? entry.modifiedAt?.toISOString() }];
+    }
+    if (ext === 'txt') return [{ ...parsePlainText(entry.name, text), updatedAt: entry.modifiedAt?.toISOString() }];
+    return [];
+  });
+}
+// Reads the notes in an uploaded file, picking the parser by file extension.
+export async function parseImportFile(file: File): Promise<ImportedNote[]> {
+  const ext = extension(file.name);
+  const modifiedAt = new Date(file.lastModified).toISOString();
+  switch (ext) {
+    case 'md':
+    case 'markdown': {
+      const note = parseMarkdown(file.name, await file.text());
+      return [{ ...note, updatedAt: note.updatedAt ?? modifiedAt }];
+    }
+    case 'txt':
+      return [{ ...parsePlainText(file.name, await file.text()), updatedAt: modifiedAt }];
+    case 'zip':
+      return parseZip(await file.arrayBuffer());
+    case 'enex':
+      return parseEnex(await file.text());
+    case 'json':
+      return parseJson(await file.text());
+    default:
+      throw new Error('Desteklenmeyen dosya türü.');
+  }
+}
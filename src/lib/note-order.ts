@@ -0,0 +1,33 @@
+import { arrayMove } from '@dnd-kit/sortable';
+import type { Note, NoteListPreferences } from '@shared/types';
+const time = (value: string) => new Date(value).getTime();
+// Orders notes for the list. In manual order, notes that were never placed (e.g. just created)
+// come first, newest first, followed by the rest in the order the user arranged them.
+export function sortNotes(notes: Note[], { sort, order }: NoteListPreferences): Note[] {
+  const sorted = [...notes];
+  if (sort === 'title') return sorted.sort((a, b) => a.title.localeCompare(b.title, 'tr') || time(b.updatedAt) - time(a.updatedAt));
+  if (sort === 'created') return sorted.sort((a, b) => time(b.createdAt) - time(a.createdAt));
+  if (sort === 'manual') {
+    const position = new Map(order.map((id, i) => [id, i]));
+    return sorted.sort((a, b) => {
+      const pa = position.get(a.id);
+      const pb = position.get(b.id);
+      if (pa === undefined && pb === undefined) return time(b.updatedAt) - time(a.updatedAt);
+      if (pa === undefined) return -1;
+      if (pb === undefined) return 1;
+      return pa - pb;
+    });
+  }
+  return sorted.sort((a, b) => time(b.updatedAt) - time(a.updatedAt));
+}
+// The manual order after dragging `activeId` onto `overId`. The move is made in the order of all
+// loaded notes, so dragging within a filtered list leaves the notes that are not shown where they were.
+export function moveNote(notes: Note[], preferences: NoteListPreferences, activeId: string, overId: string): string[] {
+  const ids = sortNotes(notes, { ...preferences, sort: 'manual' }).map(n => n.id);
+  const from = ids.indexOf(activeId);
+  const to = ids.indexOf(overId);
+  const moved = from < 0 || to < 0 ? ids : arrayMove(ids, from, to);
+  // Notes that have not been loaded yet keep their relative order after the loaded ones.
+  const loaded = new Set(ids);
+  return [...moved, ...preferences.order.filter(id => !loaded.has(id))];
+}
@@ -0,0 +1,27 @@
+import { checklistProgress } from '@/lib/checklist';
+import { decryptNote, decryptPreview, encryptNote, encryptPreview, isEncrypted } from '@/lib/crypto';
+import { buildSearchTokens } from '@/lib/search';
+import type { Note, NotePreview } from '@shared/types';
+const EXCERPT_LENGTH = 200;
+// What the note list needs of a note; saved (encrypted) with every change of its text.
+export function buildNotePreview(title: string, content: string): NotePreview {
+  return { title, excerpt: content.slice(0, EXCERPT_LENGTH), tasks: checklistProgress(content) };
+}
+// Decrypts a note as listed by the server. Summaries only carry their preview: they come back
+// with an empty `content` together with the preview, and are downloaded in full when opened.
+export async function openListedNote(dataKey: Uint8Array, note: Note): Promise<{ note: Note; preview: NotePreview | null }> {
+  if (!isEncrypted(note) && note.preview) {
+    const preview = await decryptPreview(dataKey, note.preview);
+    return { note: { ...note, title: preview.title, content: '' }, preview };
+  }
+  return { note: await decryptNote(dataKey, note), preview: null };
+}
+// Everything a save sends about a note's text: the ciphertext, the blind search tokens and the list preview.
+export async function encryptNoteText(dataKey: Uint8Array, title: string, content: string) {
+  const [encrypted, searchTokens, preview] = await Promise.all([
+    encryptNote(dataKey, { title, content }),
+    buildSearchTokens(dataKey, title, content),
+    encryptPreview(dataKey, buildNotePreview(title, content)),
+  ]);
+  return { encrypted, searchTokens, preview };
+}
@@ -0,0 +1,24 @@
+import type { Notebook } from "@shared/types";
+// Tree helpers for the flat notebook list returned by /api/notebooks.
+// Child notebooks of `parentId`, in the user's chosen order.
+export function childNotebooks(notebooks: Notebook[], parentId: string | null): Notebook[] {
+  return notebooks.filter(n => n.parentId === parentId).sort((a, b) => a.order - b.order);
+}
+// The notebook and every notebook nested below it.
+export function notebookSubtree(notebooks: Notebook[], notebookId: string): Set<string> {
+  const ids = new Set([notebookId]);
+  for (let added = true; added;) {
+    added = false;
+    for (const n of notebooks) {
+      if (n.parentId && ids.has(n.parentId) && !ids.has(n.id)) {
+        ids.add(n.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+// Depth-first list of the whole tree, for pickers that show nesting by indentation.
+export function flattenNotebooks(notebooks: Notebook[], parentId: string | null = null, depth = 0): { notebook: Notebook; depth: number }[] {
+  return childNotebooks(notebooks, parentId).flatMap(notebook => [{ notebook, depth }, ...flattenNotebooks(notebooks, notebook.id, depth + 1)]);
+}
@@ -0,0 +1,37 @@
+import type { NoteCiphertext } from "@shared/types";
+// Note saves that could not reach the server, persisted in localStorage until connectivity returns.
+// Entries hold the already-encrypted payload, so nothing readable is written to disk.
+export interface PendingSave extends NoteCiphertext {
+  noteId: string;
+  baseVersion: number; // server version the queued edits were made against
+  queuedAt: string;
+}
+const storageKey = (username: string) => `vaultnote:pending-saves:${username.toLowerCase()}`;
+export function loadPendingSaves(username: string): PendingSave[] {
+  try {
+    const raw = localStorage.getItem(storageKey(username));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+function storePendingSaves(username: string, saves: PendingSave[]) {
+  if (saves.length === 0) localStorage.removeItem(storageKey(username));
+  else localStorage.setItem(storageKey(username), JSON.stringify(saves));
+}
+// Only the newest edit per note is kept. It keeps the base version of the first queued
+// edit, since later edits build on that one rather than on anything the server has seen.
+export function queuePendingSave(username: string, save: PendingSave) {
+  const saves = loadPendingSaves(username);
+  const existing = saves.find(s => s.noteId === save.noteId);
+  const next = { ...save, baseVersion: existing ? existing.baseVersion : save.baseVersion };
+  storePendingSaves(username, [...saves.filter(s => s.noteId !== save.noteId), next]);
+}
+export function removePendingSave(username: string, noteId: string) {
+  storePendingSaves(username, loadPendingSaves(username).filter(s => s.noteId !== noteId));
+}
+// Drops every queued save, e.g. once the account they belong to is gone.
+export function clearPendingSaves(username: string) {
+  localStorage.removeItem(storageKey(username));
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { blindTokens, generateDataKey } from './crypto';
+import { buildSearchQuery, buildSearchTokens, buildSnippet, foldText, matchesAllTerms, queryWords } from './search';
+
+describe('foldText', () => {
+  it('lower-cases the Turkish way and keeps the length', () => {
+    expect(foldText('İSTANBUL Işık')).toBe('istanbul ışık');
+    expect(foldText('İİ').length).toBe(2);
+  });
+});
+
+describe('buildSearchTokens', () => {
+  it('blinds every word and its prefixes, counting title words double', async () => {
+    const dataKey = generateDataKey();
+    const tokens = await buildSearchTokens(dataKey, 'Kedi', 'kedi maması');
+    const [word, prefix, other] = await blindTokens(dataKey, ['w:kedi', 'p:ked', 'w:maması']);
+    expect(tokens[word]).toBe(3);
+    expect(tokens[prefix]).toBe(3);
+    expect(tokens[other]).toBe(1);
+    // kedi: w + 2 prefixes; maması: w + 4 prefixes. A word is not its own prefix.
+    expect(Object.keys(tokens)).toHaveLength(8);
+  });
+
+  it('gives other data keys other tokens', async () => {
+    const first = await buildSearchTokens(generateDataKey(), 'kedi', '');
+    const second = await buildSearchTokens(generateDataKey(), 'kedi', '');
+    expect(Object.keys(first).some(token => token in second)).toBe(false);
+  });
+
+  it('hides the words themselves', async () => {
+    const tokens = await buildSearchTokens(generateDataKey(), 'gizli', 'sır');
+    expect(Object.keys(tokens).every(token => /^[0-9a-f]{32}$/.test(token))).toBe(true);
+  });
+});
+
+describe('buildSearchQuery', () => {
+  it('sends the exact and prefix token of every distinct word', async () => {
+    const dataKey = generateDataKey();
+    const [exact, prefix] = await blindTokens(dataKey, ['w:kedi', 'p:kedi']);
+    expect(await buildSearchQuery(dataKey, 'Kedi kedi!')).toBe(`${exact}.${prefix}`);
+  });
+
+  it('matches what the note tokens hold for a word prefix', async () => {
+    const dataKey = generateDataKey();
+    const tokens = await buildSearchTokens(dataKey, '', 'kediler');
+    const query = await buildSearchQuery(dataKey, 'kedi');
+    expect(query?.split('.')[1]).toSatisfy((token: string) => token in tokens);
+  });
+
+  it('is null without any words', async () => {
+    expect(await buildSearchQuery(generateDataKey(), ' ?! ')).toBeNull();
+  });
+});
+
+describe('offline matching', () => {
+  it('needs every term to start some word', () => {
+    const terms = queryWords('KED mam');
+    expect(matchesAllTerms('Kedi maması', terms)).toBe(true);
+    expect(matchesAllTerms('Kedi', terms)).toBe(false);
+    expect(matchesAllTerms('sokak kedisi', ['edi'])).toBe(false);
+  });
+
+  it('highlights the matches in the snippet', () => {
+    expect(buildSnippet('Bugün İstanbul çok güzeldi', ['istanbul'])).toEqual([
+      { text: 'Bugün ', highlight: false },
+      { text: 'İstanbul', highlight: true },
+      { text: ' çok güzeldi', highlight: false },
+    ]);
+    expect(buildSnippet('Bugün', ['yarın'])).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { blindTokens } from "@/lib/crypto";
+// Client half of note search. Words are folded and blinded here; the server only ever sees
+// the resulting tokens. Each word yields an exact token ("w:") plus tokens for its prefixes
+// ("p:"), which is how a query word matches the start of longer words.
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_LENGTH = 15;
+const MAX_WORD_LENGTH = 40;
+const MAX_TOKENS_PER_NOTE = 5000; // server limit
+const TITLE_WEIGHT = 2; // title words count double when ranking
+const SNIPPET_RADIUS = 40;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+// Turkish lower-casing (İ -> i, I -> ı). Done per character so indices still line up with
+// the original text, which the snippet highlighting relies on.
+export function foldText(text: string): string {
+  let folded = '';
+  for (const ch of text) {
+    const lower = ch.toLocaleLowerCase('tr-TR');
+    folded += lower.length === ch.length ? lower : ch;
+  }
+  return folded;
+}
+function words(text: string): string[] {
+  return (foldText(text).match(WORD_PATTERN) ?? []).map(w => w.slice(0, MAX_WORD_LENGTH));
+}
+// Token -> weighted occurrence count, sent along with every note save.
+export async function buildSearchTokens(dataKey: Uint8Array, title: string, content: string): Promise<Record<string, number>> {
+  const counts = new Map<string, number>();
+  const count = (value: string, weight: number) => counts.set(value, (counts.get(value) ?? 0) + weight);
+  for (const [text, weight] of [[title, TITLE_WEIGHT], [content, 1]] as const) {
+    for (const word of words(text)) {
+      count(`w:${word}`, weight);
+      for (let len = MIN_PREFIX_LENGTH; len < Math.min(word.length, MAX_PREFIX_LENGTH + 1); len++) count(`p:${word.slice(0, len)}`, weight);
+    }
+  }
+  // Whole words are kept first if a very long note goes over the limit.
+  const values = [...counts.keys()].sort((a, b) => Number(b.startsWith('w:')) - Number(a.startsWith('w:'))).slice(0, MAX_TOKENS_PER_NOTE);
+  const tokens = await blindTokens(dataKey, values);
+  return Object.fromEntries(tokens.map((token, i) => [token, counts.get(values[i]) ?? 1]));
+}
+export function queryWords(query: string): string[] {
+  return [...new Set(words(query))];
+}
+// The `q` parameter for GET /api/notes/search: `<exact>.<prefix>` per query word.
+export async function buildSearchQuery(dataKey: Uint8Array, query: string): Promise<string | null> {
+  const terms = queryWords(query);
+  if (terms.length === 0) return null;
+  const tokens = await blindTokens(dataKey, terms.flatMap(w => [`w:${w}`, `p:${w}`]));
+  return terms.map((_, i) => `${tokens[2 * i]}.${tokens[2 * i + 1]}`).join(',');
+}
+// Same matching rule as the server (every term starts some word), for searching offline.
+export function matchesAllTerms(text: string, terms: string[]): boolean {
+  const textWords = words(text);
+  return terms.every(t => textWords.some(w => w.startsWith(t)));
+}
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+// Cuts a short excerpt around the first matching word and marks every match inside it.
+// Returns null when none of the words occur in the text.
+export function buildSnippet(text: string, terms: string[]): SnippetPart[] | null {
+  const folded = foldText(text);
+  const ranges: [number, number][] = [];
+  for (const match of folded.matchAll(WORD_PATTERN)) {
+    const term = terms.find(t => match[0].startsWith(t));
+    if (term) ranges.push([match.index ?? 0, (match.index ?? 0) + term.length]);
+  }
+  if (ranges.length === 0) return null;
+  const start = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  const end = Math.min(text.length, ranges[0][1] + SNIPPET_RADIUS * 2);
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  for (const [from, to] of ranges) {
+    if (from >= end) break;
+    if (from > cursor) parts.push({ text: text.slice(cursor, from), highlight: false });
+    parts.push({ text: text.slice(from, Math.min(to, end)), highlight: true });
+    cursor = Math.min(to, end);
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), highlight: false });
+  if (start > 0) parts.unshift({ text: '…', highlight: false });
+  if (end < text.length) parts.push({ text: '…', highlight: false });
+  return parts;
+}
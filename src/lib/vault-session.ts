@@ -0,0 +1,59 @@
+import { api } from '@/lib/api-client';
+import { decryptContent, encryptPreview, generateDataKey, isEncrypted, unwrapDataKey, wrapDataKey } from '@/lib/crypto';
+import { loadCachedSession, readCachedNotes, readListProgress } from '@/lib/note-cache';
+import type { ListProgress } from '@/lib/note-cache';
+import { buildNotePreview, encryptNoteText, openListedNote } from '@/lib/note-preview';
+import { loadPendingSaves } from '@/lib/save-queue';
+import type { Note, NotePreview, VaultKey } from '@shared/types';
+// Opening a session: the data key from the password at login, or the whole session from this device after a reload.
+// The notes a session starts with: from the local replica after a reload, nothing after a login.
+export interface LoadedNotes extends ListProgress {
+  notes: Note[];
+  previews: Record<string, NotePreview>;
+}
+// Unwraps the user's data key. Accounts created before encryption get a key on the spot.
+export async function unlockVault(password: string, vaultKey: VaultKey | null): Promise<Uint8Array> {
+  if (vaultKey) return unwrapDataKey(vaultKey, password);
+  const dataKey = generateDataKey();
+  await api('/api/user/vault-key', { method: 'PUT', body: JSON.stringify({ vaultKey: await wrapDataKey(dataKey, password) }) });
+  return dataKey;
+}
+// Decrypts a page of the note list. Notes saved before previews existed arrive whole and get their
+// preview uploaded in the background; notes saved before encryption are encrypted on the spot.
+export async function openListedNotes(dataKey: Uint8Array, listed: Note[]) {
+  const previews: Record<string, NotePreview> = {};
+  const notes = await Promise.all(listed.map(async (item) => {
+    if (!isEncrypted(item) && !item.preview) {
+      const { encrypted, searchTokens, preview } = await encryptNoteText(dataKey, item.title, item.content);
+      const saved = await api<Note>(`/api/notes/${item.id}`, { method: 'PUT', headers: { 'If-Match': `"${item.version ?? 0}"` }, body: JSON.stringify({ ...encrypted, searchTokens, preview }) });
+      return { ...saved, title: item.title, content: item.content };
+    }
+    const { note, preview } = await openListedNote(dataKey, item);
+    if (preview) previews[note.id] = preview;
+    else if (!item.preview) {
+      encryptPreview(dataKey, buildNotePreview(note.title, note.content))
+        .then(encrypted => api(`/api/notes/${note.id}/preview`, { method: 'PUT', body: JSON.stringify({ preview: encrypted }) }))
+        .catch(() => {});
+    }
+    return note;
+  }));
+  return { notes, previews };
+}
+// Rebuilds the last session on this device from IndexedDB, so a reload does not need the password.
+// Edits still waiting in the offline queue are laid over the cached server copies.
+export async function restoreCachedSession() {
+  const session = await loadCachedSession();
+  if (!session) return null;
+  const { username, dataKey } = session;
+  const pending = new Map(loadPendingSaves(username).map(p => [p.noteId, p]));
+  const previews: Record<string, NotePreview> = {};
+  const notes = await Promise.all((await readCachedNotes(username)).map(async (cached) => {
+    const queued = pending.get(cached.id);
+    if (queued) return { ...cached, ...(await decryptContent(dataKey, queued)) };
+    const { note, preview } = await openListedNote(dataKey, cached);
+    if (preview) previews[note.id] = preview;
+    return note;
+  }));
+  const loaded: LoadedNotes = { notes, previews, ...(await readListProgress(username)) };
+  return { ...session, loaded };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip } from './zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip and readZip', () => {
+  it('round-trip names, contents and dates', async () => {
+    const modifiedAt = new Date(2024, 4, 17, 13, 45, 30);
+    const entries = [
+      { name: 'Notlar/Alışveriş listesi.md', data: encoder.encode('# Alışveriş\n- [ ] süt'), modifiedAt },
+      { name: 'boş.txt', data: new Uint8Array(0), modifiedAt },
+    ];
+    const read = await readZip(await createZip(entries).arrayBuffer());
+    expect(read.map(e => e.name)).toEqual(entries.map(e => e.name));
+    expect(read.map(e => decoder.decode(e.data))).toEqual(['# Alışveriş\n- [ ] süt', '']);
+    expect(read.map(e => e.modifiedAt)).toEqual([modifiedAt, modifiedAt]);
+  });
+
+  it('keep dates to two seconds, as ZIP stores them', async () => {
+    const [entry] = await readZip(await createZip([{ name: 'a.md', data: new Uint8Array(1), modifiedAt: new Date(2024, 0, 1, 0, 0, 59) }]).arrayBuffer());
+    expect(entry.modifiedAt).toEqual(new Date(2024, 0, 1, 0, 0, 58));
+  });
+
+  it('read an archive without files', async () => {
+    expect(await readZip(await createZip([]).arrayBuffer())).toEqual([]);
+  });
+});
+
+describe('readZip', () => {
+  it('rejects something that is not a ZIP', async () => {
+    await expect(readZip(encoder.encode('not a zip file at all, just text').buffer)).rejects.toThrow('Geçerli bir ZIP dosyası değil.');
+  });
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config'
+import path from "path"
+
+// Kept apart from vite.config.ts: the Cloudflare plugin there starts a Workers runtime, which the unit
+// tests do not need. They run in Node, whose Web Crypto and Blob match what the browser and Workers offer.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts', 'worker/**/*.test.ts', 'shared/**/*.test.ts'],
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./shared"),
+    },
+  },
+})
@@ -1,43 +1,344 @@
-import { IndexedEntity } from "./core-utils";
-import type { User, Note } from "@shared/types";
+import { Entity, Index, IndexedEntity } from "./core-utils";
+import type { Env } from "./core-utils";
+import type { User, Note, Notebook, NoteCiphertext, NoteListPreferences, NoteRevision, NoteSort, Page, Tag, VaultKey } from "@shared/types";
+import type { PasswordHash } from "./passwords";
 // The state stored in the Durable Object for a user.
-export interface UserRecord extends User {
-  passwordHash: string;
+export interface UserRecord extends User, PasswordHash {
   noteIds: string[];
+  notebookIds: string[];
+  tags: Tag[]; // the user's tag index; names are stored encrypted and empty
+  noteSort: NoteSort;
+  noteOrder: string[]; // manual note list order
+  noteListIndexed: boolean; // false until the user's notes have been added to NoteEntity's list index
+  // The client sends a secret derived from the password instead of the password. False for accounts
+  // created before that, whose hash is still of the password itself until their next login.
+  hasLoginSecret: boolean;
+  sessionIds: string[];
+  vaultKey: VaultKey | null; // null for accounts created before note encryption
+  // Set while a rename moves the account here from this id; a rename that was cut off can then be repeated.
+  renamedFrom: string | null;
+  reservedUsernames: string[]; // earlier names of this account, held back by UsernameReservationEntity
+  // Two-factor authentication. The server has to compute TOTP codes, so the secret is stored as is;
+  // recovery codes are only kept as hashes and each is removed once used.
+  totpSecret: string | null; // base32; null while two-factor authentication is off
+  totpPendingSecret: string | null; // offered by /2fa/setup until a code from it confirms enrollment
+  totpLastStep: number; // newest time step a code was accepted for
+  recoveryCodeHashes: string[];
 }
 export class UserEntity extends IndexedEntity<UserRecord> {
   static readonly entityName = "user";
   static readonly indexName = "users";
-  static readonly initialState: UserRecord = { id: "", username: "", passwordHash: "", noteIds: [] };
+  static readonly initialState: UserRecord = { id: "", username: "", passwordHash: "", passwordSalt: "", passwordAlgorithm: "pbkdf2-sha256", passwordIterations: 0, noteIds: [], notebookIds: [], tags: [], noteSort: "updated", noteOrder: [], noteListIndexed: false, hasLoginSecret: false, sessionIds: [], vaultKey: null, renamedFrom: null, reservedUsernames: [], totpSecret: null, totpPendingSecret: null, totpLastStep: 0, recoveryCodeHashes: [] };
   // NOTE: The incompatible `keyOf` override has been removed to fix the TS2417 type error.
   // The base class implementation `(state) => state.id` is now used.
   // The user's ID is set to their lowercase username upon creation in the route handler.
-  async getPasswordHash(): Promise<string> {
+  async getPasswordHash(): Promise<PasswordHash> {
     await this.ensureState();
-    return this._state.passwordHash;
+    const { passwordHash, passwordSalt, passwordAlgorithm, passwordIterations } = this._state;
+    return { passwordHash, passwordSalt, passwordAlgorithm, passwordIterations };
   }
-  async updatePasswordHash(newHash: string): Promise<void> {
+  async updatePasswordHash(newHash: PasswordHash): Promise<void> {
     await this.mutate(s => ({
       ...s,
-      passwordHash: newHash,
+      ...newHash,
+    }));
+  }
+  async updateLoginSecretHash(newHash: PasswordHash): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      ...newHash,
+      hasLoginSecret: true,
+    }));
+  }
+  async getVaultKey(): Promise<VaultKey | null> {
+    await this.ensureState();
+    return this._state.vaultKey ?? null;
+  }
+  async updateVaultKey(vaultKey: VaultKey): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      vaultKey,
     }));
   }
   async addNoteId(noteId: string): Promise<void> {
+    await this.addNoteIds([noteId]);
+  }
+  async addNoteIds(noteIds: string[]): Promise<void> {
     await this.mutate(s => ({
       ...s,
       // Defensive check to prevent "not iterable" error if noteIds is missing.
-      noteIds: [...new Set([...(s.noteIds || []), noteId])]
+      noteIds: [...new Set([...(s.noteIds || []), ...noteIds])]
     }));
   }
   async removeNoteId(noteId: string): Promise<void> {
     await this.mutate(s => ({
       ...s,
       // Defensive check to prevent calling .filter on a non-array.
-      noteIds: (s.noteIds || []).filter(id => id !== noteId)
+      noteIds: (s.noteIds || []).filter(id => id !== noteId),
+      noteOrder: (s.noteOrder || []).filter(id => id !== noteId),
+    }));
+  }
+  async markNoteListIndexed(): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      noteListIndexed: true,
+    }));
+  }
+  async getNoteListPreferences(): Promise<NoteListPreferences> {
+    await this.ensureState();
+    return { sort: this._state.noteSort || "updated", order: this._state.noteOrder || [] };
+  }
+  async updateNoteListPreferences(patch: Partial<NoteListPreferences>): Promise<NoteListPreferences> {
+    const next = await this.mutate(s => ({
+      ...s,
+      noteSort: patch.sort ?? s.noteSort ?? "updated",
+      noteOrder: patch.order ?? s.noteOrder ?? [],
+    }));
+    return { sort: next.noteSort, order: next.noteOrder };
+  }
+  async addNotebookId(notebookId: string): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      notebookIds: [...new Set([...(s.notebookIds || []), notebookId])]
+    }));
+  }
+  async removeNotebookIds(notebookIds: string[]): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      notebookIds: (s.notebookIds || []).filter(id => !notebookIds.includes(id))
+    }));
+  }
+  async getTags(): Promise<Tag[]> {
+    await this.ensureState();
+    return this._state.tags || [];
+  }
+  async addTag(tag: Tag): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      tags: [...(s.tags || []), tag]
+    }));
+  }
+  async updateTag(tagId: string, patch: Partial<Tag>): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      tags: (s.tags || []).map(t => t.id === tagId ? { ...t, ...patch, id: tagId } : t)
+    }));
+  }
+  async removeTag(tagId: string): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      tags: (s.tags || []).filter(t => t.id !== tagId)
+    }));
+  }
+  // Keeps tag counts in step with a note whose tags went from `before` to `after`.
+  async adjustTagCounts(before: string[], after: string[]): Promise<void> {
+    const removed = before.filter(id => !after.includes(id));
+    const added = after.filter(id => !before.includes(id));
+    if (removed.length === 0 && added.length === 0) return;
+    await this.mutate(s => ({
+      ...s,
+      tags: (s.tags || []).map(t => ({
+        ...t,
+        count: Math.max(0, t.count + (added.includes(t.id) ? 1 : 0) - (removed.includes(t.id) ? 1 : 0))
+      }))
+    }));
+  }
+  // Replaces every count, e.g. after a merge or delete rewrote the tags of many notes at once.
+  async setTagCounts(counts: Map<string, number>): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      tags: (s.tags || []).map(t => ({ ...t, count: counts.get(t.id) ?? 0 }))
+    }));
+  }
+  // Records that a TOTP code for `step` was accepted. Returns false if that step (or a later one) was
+  // already used, which makes a code good for one login even when two requests race with it.
+  async useTotpStep(step: number): Promise<boolean> {
+    let accepted = false;
+    await this.mutate(s => {
+      accepted = step > (s.totpLastStep || 0);
+      return accepted ? { ...s, totpLastStep: step } : s;
+    });
+    return accepted;
+  }
+  // Removes a recovery code by its hash. Returns false if the account has no such unused code.
+  async useRecoveryCode(hash: string): Promise<boolean> {
+    let found = false;
+    await this.mutate(s => {
+      const hashes = s.recoveryCodeHashes || [];
+      found = hashes.includes(hash);
+      return found ? { ...s, recoveryCodeHashes: hashes.filter(h => h !== hash) } : s;
+    });
+    return found;
+  }
+  async addSessionId(sessionId: string): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      sessionIds: [...new Set([...(s.sessionIds || []), sessionId])]
     }));
   }
+  async removeSessionIds(sessionIds: string[]): Promise<void> {
+    await this.mutate(s => ({
+      ...s,
+      sessionIds: (s.sessionIds || []).filter(id => !sessionIds.includes(id))
+    }));
+  }
+}
+// A login session. The bearer token handed to the client is signed with the
+// server key below; this record is what makes a token revocable.
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt: string;
+  userAgent: string;
+}
+export class SessionEntity extends IndexedEntity<SessionRecord> {
+  static readonly entityName = "session";
+  static readonly indexName = "sessions";
+  static readonly initialState: SessionRecord = { id: "", userId: "", createdAt: "", expiresAt: "", lastUsedAt: "", userAgent: "" };
+}
+// Holds the HMAC secret used to sign session tokens. Generated on first use.
+export class SigningKeyEntity extends Entity<{ secret: string }> {
+  static readonly entityName = "signing-key";
+  static readonly initialState = { secret: "" };
+  async getSecret(): Promise<string> {
+    const current = await this.getState();
+    if (current.secret) return current.secret;
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const generated = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+    // mutate() re-reads under CAS, so a concurrent first use keeps whichever secret won.
+    const next = await this.mutate(s => (s.secret ? s : { secret: generated }));
+    return next.secret;
+  }
+}
+// Failed login counter for one throttling key (`user:<id>` or `ip:<address>`).
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: number; // epoch ms
+  lockedUntil: number; // epoch ms, 0 when not locked
+}
+// Failures older than this without a lockout in effect are forgotten.
+const LOGIN_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_LOCKOUT_BASE_MS = 30 * 1000;
+const LOGIN_LOCKOUT_MAX_MS = 60 * 60 * 1000;
+export class LoginAttemptEntity extends Entity<LoginAttemptRecord> {
+  static readonly entityName = "login-attempt";
+  static readonly initialState: LoginAttemptRecord = { failures: 0, lastFailureAt: 0, lockedUntil: 0 };
+  async getLockedUntil(): Promise<number> {
+    const s = await this.getState();
+    return s.lockedUntil > Date.now() ? s.lockedUntil : 0;
+  }
+  // Counts a failure. Once `freeAttempts` is used up, every further failure locks the key
+  // for twice as long as the previous one (30s, 1m, 2m, ... capped at 1h).
+  async recordFailure(freeAttempts: number): Promise<number> {
+    const next = await this.mutate(s => {
+      const now = Date.now();
+      const stale = s.lockedUntil <= now && now - s.lastFailureAt > LOGIN_ATTEMPT_WINDOW_MS;
+      const failures = (stale ? 0 : s.failures) + 1;
+      const excess = failures - freeAttempts;
+      const lockedUntil = excess > 0
+        ? now + Math.min(LOGIN_LOCKOUT_BASE_MS * 2 ** (excess - 1), LOGIN_LOCKOUT_MAX_MS)
+        : 0;
+      return { failures, lastFailureAt: now, lockedUntil };
+    });
+    return next.lockedUntil;
+  }
+}
+// Where the trash purge of one user stands (see trash-purge.ts). `dueAt` is when the next batch should
+// run (null: no note in the trash), `offset` how far into the user's notes the current run got and
+// `earliest` the earliest expiry it has seen so far. A request running a batch holds it until `leaseUntil`.
+export interface TrashPurgeRecord {
+  userId: string;
+  dueAt: number | null; // epoch ms
+  offset: number;
+  earliest: number | null; // epoch ms
+  leaseUntil: number; // epoch ms
+}
+// Long enough for one batch; a request that died mid-batch only holds the purge up this long.
+const TRASH_PURGE_LEASE_MS = 60 * 1000;
+export class TrashPurgeEntity extends Entity<TrashPurgeRecord> {
+  static readonly entityName = "trash-purge";
+  static readonly initialState: TrashPurgeRecord = { userId: "", dueAt: null, offset: 0, earliest: null, leaseUntil: 0 };
+  // Makes sure the purge is due by `at`; an earlier due time is kept.
+  async schedule(at: number): Promise<void> {
+    await this.mutate(s => ({ ...s, userId: this.id, dueAt: s.dueAt === null ? at : Math.min(s.dueAt, at) }));
+  }
+  // Takes the purge for one batch if it is due and nobody holds it. Users from before the purge was
+  // tracked have no record yet; their trash is looked at right away.
+  async claim(now: number): Promise<TrashPurgeRecord | null> {
+    const fresh = !(await this.exists());
+    if (!fresh) {
+      const { dueAt, leaseUntil } = await this.getState();
+      if (dueAt === null || dueAt > now || leaseUntil > now) return null;
+    }
+    let claimed = false;
+    const next = await this.mutate(s => {
+      const dueAt = fresh && s.dueAt === null ? now : s.dueAt;
+      claimed = dueAt !== null && dueAt <= now && s.leaseUntil <= now;
+      return claimed ? { ...s, userId: this.id, dueAt: null, leaseUntil: now + TRASH_PURGE_LEASE_MS } : s;
+    });
+    return claimed ? next : null;
+  }
+  // Hands the purge back after a batch. A note trashed meanwhile may have made it due sooner.
+  async release(run: Pick<TrashPurgeRecord, 'offset' | 'earliest' | 'dueAt'>): Promise<void> {
+    await this.mutate(s => {
+      const dueAt = s.dueAt === null ? run.dueAt : run.dueAt === null ? s.dueAt : Math.min(s.dueAt, run.dueAt);
+      return { ...s, offset: run.offset, earliest: run.earliest, dueAt, leaseUntil: 0 };
+    });
+  }
+}
+// A username given up by a rename, kept from other accounts for a while so nobody can pose as its
+// former owner right away. Keyed by the lowercase name.
+export interface UsernameReservationRecord {
+  heldFor: string; // id of the account that may take the name back
+  until: number; // epoch ms
+}
+export const USERNAME_RESERVATION_MS = 30 * 24 * 60 * 60 * 1000;
+export class UsernameReservationEntity extends Entity<UsernameReservationRecord> {
+  static readonly entityName = "username-reservation";
+  static readonly initialState: UsernameReservationRecord = { heldFor: "", until: 0 };
+  // The id of the account the name is held for, or null if it is free.
+  async getHolder(): Promise<string | null> {
+    const s = await this.getState();
+    return s.until > Date.now() ? s.heldFor : null;
+  }
+}
+// The order in which a user's notes were written, for GET /api/notes/changes. Every write to a note,
+// deleting it included, takes the next sequence number; `changed` keeps the latest one per note. Only the
+// newest MAX_CHANGE_LOG_ENTRIES notes are kept, and `floor` is the highest number dropped: a client that
+// last synced below it reloads its whole list. Sequence numbers never go down, unlike clocks.
+export interface NoteChangeLogRecord {
+  seq: number;
+  floor: number;
+  changed: Record<string, number>; // noteId -> seq of its latest write
+}
+const MAX_CHANGE_LOG_ENTRIES = 1000;
+export class NoteChangeLogEntity extends Entity<NoteChangeLogRecord> {
+  static readonly entityName = "note-changes";
+  static readonly initialState: NoteChangeLogRecord = { seq: 0, floor: 0, changed: {} };
+  // Called after the write is stored, so a client that reads the new number also reads the new note.
+  async record(noteId: string): Promise<void> {
+    await this.mutate(s => {
+      const seq = s.seq + 1;
+      const changed = { ...s.changed, [noteId]: seq };
+      const entries = Object.entries(changed);
+      if (entries.length <= MAX_CHANGE_LOG_ENTRIES) return { ...s, seq, changed };
+      const kept = entries.sort((a, b) => b[1] - a[1]).slice(0, MAX_CHANGE_LOG_ENTRIES);
+      const floor = entries.slice(MAX_CHANGE_LOG_ENTRIES).reduce((max, [, n]) => Math.max(max, n), s.floor);
+      return { seq, floor, changed: Object.fromEntries(kept) };
+    });
+  }
+}
+const MAX_TIMESTAMP = 9_999_999_999_999;
+// An index key prefix under which later times sort first.
+function newestFirst(iso: string): string {
+    return String(MAX_TIMESTAMP - new Date(iso).getTime()).padStart(13, '0');
 }
 // Represents a single note entity in Durable Objects.
+// Each user's notes are also listed in `note-list:<userId>` as `<updatedAt, newest first>:<noteId>`,
+// which is what GET /api/notes pages through. Writes that move `updatedAt` re-key the entry, and every
+// write is recorded in the owner's NoteChangeLogEntity.
 export class NoteEntity extends IndexedEntity<Note> {
     static readonly entityName = "note";
     static readonly indexName = "notes";
@@ -49,4 +350,229 @@ export class NoteEntity extends IndexedEntity<Note> {
         createdAt: "",
         updatedAt: ""
     };
-}
\ No newline at end of file
+    // Current state with its storage version attached.
+    async getVersionedState(): Promise<Note> {
+        const s = await this.ensureState();
+        return { ...s, version: this._version };
+    }
+    static listIndex(env: Env, userId: string): Index<string> {
+        return new Index<string>(env, `note-list:${userId}`);
+    }
+    private static listKey(note: Note): string {
+        return `${newestFirst(note.updatedAt)}:${note.id}`;
+    }
+    static listedNoteId(key: string): string {
+        return key.slice(key.indexOf(':') + 1);
+    }
+    // The updatedAt of a listed note as epoch ms, read back from its list key.
+    static listedUpdatedAt(key: string): number {
+        return MAX_TIMESTAMP - Number(key.slice(0, key.indexOf(':')));
+    }
+    // Runs after every write to a note. Moves its list entry from where `before` had it to where `after`
+    // has it (null adds or removes it) and records the write in the change log of whoever owns it now.
+    // A note whose owner changed (an account rename) moves to the new owner's list.
+    static async relist(env: Env, before: Note | null, after: Note | null): Promise<void> {
+        const from = before?.id && before.userId ? { userId: before.userId, key: NoteEntity.listKey(before) } : null;
+        const to = after?.id && after.userId ? { userId: after.userId, key: NoteEntity.listKey(after) } : null;
+        if (!from || !to || from.userId !== to.userId || from.key !== to.key) {
+            if (from) await NoteEntity.listIndex(env, from.userId).remove(from.key);
+            if (to) await NoteEntity.listIndex(env, to.userId).add(to.key);
+        }
+        const owner = after?.id && after.userId ? after : before?.id && before.userId ? before : null;
+        if (owner) await new NoteChangeLogEntity(env, owner.userId).record(owner.id);
+    }
+    // Lists notes written before the list index existed.
+    static async rebuildList(env: Env, userId: string, notes: Note[]): Promise<void> {
+        const idx = NoteEntity.listIndex(env, userId);
+        await idx.clear();
+        await idx.addBatch(notes.filter(n => n.id).map(n => NoteEntity.listKey(n)));
+    }
+    override async mutate(updater: (current: Note) => Note): Promise<Note> {
+        let before = NoteEntity.initialState;
+        const next = await super.mutate(current => {
+            before = current;
+            return updater(current);
+        });
+        await NoteEntity.relist(this.env, before, next);
+        return next;
+    }
+    // Applies the patch only if the stored version still equals `expectedVersion`.
+    // Returns null on a version mismatch instead of retrying like mutate() does.
+    async patchIfVersion(expectedVersion: number, p: Partial<Note>): Promise<Note | null> {
+        const current = await this.ensureState();
+        if (this._version !== expectedVersion) return null;
+        const { version: _ignored, ...next } = { ...current, ...p };
+        const res = await this.stub.casPut(this.key(), expectedVersion, next);
+        if (!res.ok) return null;
+        this._version = res.v;
+        this._state = next;
+        await NoteEntity.relist(this.env, current, next);
+        return { ...next, version: res.v };
+    }
+    // Writes new content if the content has not changed since `baseVersion`, the version the edit was made
+    // against. Only metadata changes since then are let through; notes stored before contentVersion
+    // existed need `baseVersion` to be the current version. Returns null on a conflict.
+    async patchContent(baseVersion: number, p: Partial<Note>): Promise<Note | null> {
+        const current = await this.ensureState();
+        const version = this._version;
+        if (baseVersion > version || baseVersion < (current.contentVersion ?? version)) return null;
+        return this.patchIfVersion(version, { ...p, contentVersion: version + 1 });
+    }
+}
+// A notebook (folder) of notes. Notes point at it through `Note.notebookId`.
+export class NotebookEntity extends IndexedEntity<Notebook> {
+    static readonly entityName = "notebook";
+    static readonly indexName = "notebooks";
+    static readonly initialState: Notebook = {
+        id: "",
+        userId: "",
+        name: "",
+        parentId: null,
+        order: 0,
+        createdAt: "",
+        updatedAt: ""
+    };
+}
+// Saved snapshots of a note. Besides the global index, each note has its own index
+// (`note-revisions:<noteId>`) whose keys sort newest first, so Index.page walks history backwards.
+const MAX_REVISIONS_PER_NOTE = 50;
+// Autosave stores a note every few seconds while it is typed in. Saves within this long of the time
+// the newest revision was started replace its content, so one editing session is one revision and
+// cannot push the rest of the history out.
+const REVISION_WINDOW_MS = 10 * 60 * 1000;
+export class NoteRevisionEntity extends IndexedEntity<NoteRevision> {
+    static readonly entityName = "note-revision";
+    static readonly indexName = "note-revisions";
+    static readonly initialState: NoteRevision = { id: "", noteId: "", createdAt: "", size: 0, ciphertext: "", iv: "", salt: "" };
+    private static noteIndex(env: Env, noteId: string): Index<string> {
+        return new Index<string>(env, `note-revisions:${noteId}`);
+    }
+    static async append(env: Env, noteId: string, encrypted: NoteCiphertext, createdAt: string): Promise<NoteRevision> {
+        const inverted = newestFirst(createdAt);
+        const revision: NoteRevision = {
+            id: `${noteId}:${inverted}:${crypto.randomUUID().slice(0, 8)}`,
+            noteId,
+            createdAt,
+            size: Math.floor(encrypted.ciphertext.length * 3 / 4),
+            ...encrypted,
+        };
+        await NoteRevisionEntity.create(env, revision);
+        const idx = NoteRevisionEntity.noteIndex(env, noteId);
+        await idx.add(revision.id);
+        const ids = await idx.list();
+        if (ids.length > MAX_REVISIONS_PER_NOTE) {
+            const pruned = ids.slice(MAX_REVISIONS_PER_NOTE);
+            await NoteRevisionEntity.deleteMany(env, pruned);
+            await idx.removeBatch(pruned);
+        }
+        return revision;
+    }
+    // Like append, but merged into the newest revision while that is still inside REVISION_WINDOW_MS.
+    // Its id keeps the time the revision was started; `createdAt` becomes the time of the latest save.
+    static async appendOrMerge(env: Env, noteId: string, encrypted: NoteCiphertext, createdAt: string): Promise<NoteRevision> {
+        const { items: [newestId] } = await NoteRevisionEntity.noteIndex(env, noteId).page(null, 1);
+        if (newestId && Date.parse(createdAt) - NoteRevisionEntity.startedAt(newestId) < REVISION_WINDOW_MS) {
+            const newest = new NoteRevisionEntity(env, newestId);
+            if (await newest.exists()) {
+                return newest.mutate(s => ({ ...s, createdAt, size: Math.floor(encrypted.ciphertext.length * 3 / 4), ...encrypted }));
+            }
+        }
+        return NoteRevisionEntity.append(env, noteId, encrypted, createdAt);
+    }
+    // When a revision was started, read back from its id (`<noteId>:<createdAt, newest first>:<random>`).
+    private static startedAt(id: string): number {
+        const parts = id.split(':');
+        return MAX_TIMESTAMP - Number(parts[parts.length - 2]);
+    }
+    static async pageForNote(env: Env, noteId: string, cursor?: string | null, limit?: number): Promise<Page<NoteRevision>> {
+        const { items: ids, next } = await NoteRevisionEntity.noteIndex(env, noteId).page(cursor, limit);
+        const items = await Promise.all(ids.map(id => new NoteRevisionEntity(env, id).getState()));
+        return { items, next };
+    }
+    static async deleteForNote(env: Env, noteId: string): Promise<void> {
+        const idx = NoteRevisionEntity.noteIndex(env, noteId);
+        await NoteRevisionEntity.deleteMany(env, await idx.list());
+        await idx.clear();
+    }
+}
+// Blind full-text search. The browser turns each note into HMAC tokens (whole words and
+// word prefixes) with a key the server does not have, so the index never contains plaintext.
+// Postings live in a per-user Index as `<token>:<noteId>:<count>` keys; because keys are
+// sorted, all postings of a token form one contiguous range that Index.page can scan.
+// Each note's entity remembers the keys it added so they can be removed again.
+export interface SearchTerm {
+    exact: string; // token of the whole word
+    prefix: string; // token of the word as a prefix of longer words
+}
+const EXACT_MATCH_WEIGHT = 3;
+const SEARCH_SCAN_PAGE = 200;
+export class NoteSearchEntity extends Entity<{ keys: string[] }> {
+    static readonly entityName = "note-search";
+    static readonly initialState = { keys: [] as string[] };
+    private static userIndex(env: Env, userId: string): Index<string> {
+        return new Index<string>(env, `search:${userId}`);
+    }
+    // Only postings that changed are written, since autosave reindexes a note on every edit.
+    static async indexNote(env: Env, userId: string, noteId: string, tokens: Record<string, number>): Promise<void> {
+        const doc = new NoteSearchEntity(env, noteId);
+        const idx = NoteSearchEntity.userIndex(env, userId);
+        const previous = new Set((await doc.getState()).keys);
+        const keys = Object.entries(tokens).map(([token, count]) => `${token}:${noteId}:${count}`);
+        const current = new Set(keys);
+        await idx.removeBatch([...previous].filter(k => !current.has(k)));
+        await idx.addBatch(keys.filter(k => !previous.has(k)));
+        await doc.save({ keys });
+    }
+    static async removeNote(env: Env, userId: string, noteId: string): Promise<void> {
+        const doc = new NoteSearchEntity(env, noteId);
+        const { keys } = await doc.getState();
+        if (keys.length > 0) await NoteSearchEntity.userIndex(env, userId).removeBatch(keys);
+        await doc.delete();
+    }
+    // Moves a note's postings to another user's index, keeping the tokens.
+    static async moveNote(env: Env, fromUserId: string, toUserId: string, noteId: string): Promise<void> {
+        const { keys } = await new NoteSearchEntity(env, noteId).getState();
+        if (keys.length === 0) return;
+        await NoteSearchEntity.userIndex(env, fromUserId).removeBatch(keys);
+        await NoteSearchEntity.userIndex(env, toUserId).addBatch(keys);
+    }
+    static async isIndexed(env: Env, noteId: string): Promise<boolean> {
+        return new NoteSearchEntity(env, noteId).exists();
+    }
+    // Returns noteId -> occurrence count for one token.
+    private static async postings(idx: Index<string>, token: string): Promise<Map<string, number>> {
+        const result = new Map<string, number>();
+        let cursor: string | null = `i:${token}:`;
+        while (cursor) {
+            const { items, next } = await idx.page(cursor, SEARCH_SCAN_PAGE);
+            for (const item of items) {
+                if (!item.startsWith(`${token}:`)) return result;
+                const [, noteId, count] = item.split(':');
+                result.set(noteId, Number(count) || 1);
+            }
+            cursor = next;
+        }
+        return result;
+    }
+    // Every term must match (whole word or prefix). Whole-word hits weigh more than prefix hits.
+    static async search(env: Env, userId: string, terms: SearchTerm[]): Promise<{ noteId: string; score: number }[]> {
+        const idx = NoteSearchEntity.userIndex(env, userId);
+        let scores: Map<string, number> | null = null;
+        for (const term of terms) {
+            const [exact, prefix] = await Promise.all([
+                NoteSearchEntity.postings(idx, term.exact),
+                NoteSearchEntity.postings(idx, term.prefix),
+            ]);
+            const termScores = new Map<string, number>();
+            for (const [noteId, count] of exact) termScores.set(noteId, count * EXACT_MATCH_WEIGHT);
+            for (const [noteId, count] of prefix) termScores.set(noteId, (termScores.get(noteId) ?? 0) + count);
+            const previous: Map<string, number> | null = scores;
+            scores = new Map();
+            for (const [noteId, score] of termScores) {
+                if (previous === null) scores.set(noteId, score);
+                else if (previous.has(noteId)) scores.set(noteId, (previous.get(noteId) ?? 0) + score);
+            }
+        }
+        return [...(scores ?? new Map<string, number>())].map(([noteId, score]) => ({ noteId, score })).sort((a, b) => b.score - a.score);
+    }
+}
@@ -0,0 +1,60 @@
+// Password hashing for stored credentials: the login secret clients derive from the password, or for
+// accounts from before login secrets, the password itself.
+// New hashes use salted PBKDF2-SHA256. Accounts created before this used a single
+// unsalted SHA-256; those are still verified and get re-hashed on the next successful login.
+export type PasswordAlgorithm = 'sha256' | 'pbkdf2-sha256';
+export interface PasswordHash {
+  passwordHash: string; // hex
+  passwordSalt: string; // hex, empty for legacy sha256 hashes
+  passwordAlgorithm: PasswordAlgorithm;
+  passwordIterations: number;
+}
+// Cloudflare Workers cap PBKDF2 at 100k iterations.
+const PBKDF2_ITERATIONS = 100_000;
+const encoder = new TextEncoder();
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+// Helper to create a SHA-256 hash of a string. Only used to verify legacy hashes.
+async function createHash(text: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', encoder.encode(text));
+  return toHex(new Uint8Array(hashBuffer));
+}
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  return toHex(new Uint8Array(bits));
+}
+// Compares two strings without short-circuiting on the first differing character.
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) diff |= left[i] ^ (right[i] ?? 0);
+  return diff === 0;
+}
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    passwordHash: await pbkdf2(password, salt, PBKDF2_ITERATIONS),
+    passwordSalt: toHex(salt),
+    passwordAlgorithm: 'pbkdf2-sha256',
+    passwordIterations: PBKDF2_ITERATIONS,
+  };
+}
+// `needsRehash` is set when the password matched a hash weaker than what hashPassword produces today.
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<{ valid: boolean; needsRehash: boolean }> {
+  // Records written before the algorithm tag existed have no passwordAlgorithm and are plain SHA-256.
+  const algorithm = stored.passwordAlgorithm ?? 'sha256';
+  const provided = algorithm === 'pbkdf2-sha256'
+    ? await pbkdf2(password, fromHex(stored.passwordSalt), stored.passwordIterations)
+    : await createHash(password);
+  const valid = timingSafeEqual(provided, stored.passwordHash);
+  const needsRehash = valid && (algorithm !== 'pbkdf2-sha256' || stored.passwordIterations < PBKDF2_ITERATIONS);
+  return { valid, needsRehash };
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { hashRecoveryCode, verifyTotp } from './totp';
+
+// The SHA-1 seed of RFC 6238 appendix B ("12345678901234567890"), base32 encoded.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const at = (seconds: number) => vi.spyOn(Date, 'now').mockReturnValue(seconds * 1000);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('verifyTotp', () => {
+  // The RFC lists 8-digit codes; the 6-digit code is their last six digits.
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ])('accepts the RFC 6238 code at T=%i', async (seconds, code) => {
+    at(seconds);
+    expect(await verifyTotp(RFC_SECRET, code, -1)).toBe(Math.floor(seconds / 30));
+  });
+
+  it('accepts a code from one step before or after now', async () => {
+    at(59 + 30);
+    expect(await verifyTotp(RFC_SECRET, '287082', -1)).toBe(1);
+    at(59 - 30);
+    expect(await verifyTotp(RFC_SECRET, '287082', -1)).toBe(1);
+  });
+
+  it('refuses a code from further away', async () => {
+    at(59 + 60);
+    expect(await verifyTotp(RFC_SECRET, '287082', -1)).toBeNull();
+  });
+
+  it('refuses a step that was already used', async () => {
+    at(59);
+    expect(await verifyTotp(RFC_SECRET, '287082', 1)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, '287082', 0)).toBe(1);
+  });
+
+  it('refuses anything but six digits', async () => {
+    at(59);
+    expect(await verifyTotp(RFC_SECRET, '94287082', -1)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, '28708a', -1)).toBeNull();
+  });
+});
+
+describe('hashRecoveryCode', () => {
+  it('ignores case and the dash', async () => {
+    expect(await hashRecoveryCode('K7M2P-X3Q4D')).toBe(await hashRecoveryCode('k7m2px3q4d'));
+    expect(await hashRecoveryCode('k7m2p-x3q4d')).not.toBe(await hashRecoveryCode('k7m2p-x3q4e'));
+  });
+});
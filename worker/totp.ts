@@ -0,0 +1,86 @@
+// Time-based one-time passwords (RFC 6238) for two-factor authentication, with the defaults every
+// authenticator app understands: HMAC-SHA1, 6 digits, 30-second steps. Also the recovery codes that
+// stand in for the authenticator when it is lost.
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step before or after the current one are accepted, to allow for clock drift.
+const TOTP_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const encoder = new TextEncoder();
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+function toBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+function fromBase32(text: string): Uint8Array {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of text.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+// A new shared secret: 160 random bits, base32 encoded as authenticator apps expect.
+export function generateTotpSecret(): string {
+  return toBase32(crypto.getRandomValues(new Uint8Array(20)));
+}
+// The `otpauth://` URI shown as a QR code during enrollment.
+export function totpUri(secret: string, issuer: string, account: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+}
+async function hotp(key: CryptoKey, counter: number): Promise<string> {
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+// Returns the time step the code belongs to, or null if it matches none near now. Steps at or before
+// `lastUsedStep` are refused, so a code that was seen once cannot be replayed.
+export async function verifyTotp(secret: string, code: string, lastUsedStep: number): Promise<number | null> {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+  const key = await crypto.subtle.importKey('raw', fromBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const current = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (step > lastUsedStep && (await hotp(key, step)) === code) return step;
+  }
+  return null;
+}
+// Codes look like `k7m2p-x9q4d`. Case and the dash do not matter when one is typed back in.
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = toBase32(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+// Recovery codes carry 50 random bits, too many to guess, so a plain SHA-256 is enough to keep them
+// unusable if the user record leaks; a slow hash would only make every login with one expensive.
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.toLowerCase().replace(/[^a-z2-7]/g, '');
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(normalized))));
+}
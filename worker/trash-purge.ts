@@ -0,0 +1,55 @@
+// Deleting notes for good once they have sat in the trash for TRASH_RETENTION_MS. Each user has a
+// TrashPurgeEntity that records when the purge is next due; it is run lazily, one batch of notes after
+// a sync request that finds it due, in the background of that request.
+import type { Env } from './core-utils';
+import { NoteEntity, NoteRevisionEntity, NoteSearchEntity, TrashPurgeEntity, UserEntity } from './entities';
+import type { Note } from '@shared/types';
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+// Notes looked at per run; a user with more notes is gone through over several requests in a row.
+const TRASH_SCAN_BATCH = 200;
+// Deletes a note with its revisions and search postings; syncing clients learn of it from the change log.
+export async function purgeNote(env: Env, user: UserEntity, note: Note): Promise<void> {
+  await NoteEntity.delete(env, note.id);
+  await NoteEntity.relist(env, note, null);
+  await user.removeNoteId(note.id);
+  await NoteRevisionEntity.deleteForNote(env, note.id);
+  await NoteSearchEntity.removeNote(env, note.userId, note.id);
+  await user.adjustTagCounts(note.tags || [], []);
+}
+// Runs the next batch of the user's purge if it is due and no other request is running one. Expired
+// notes in the batch are deleted, and the purge is set due again right away if notes are left to look
+// at, or else for the earliest expiry seen during the whole run.
+export async function purgeExpiredTrash(env: Env, userId: string): Promise<void> {
+  const purge = new TrashPurgeEntity(env, userId);
+  const now = Date.now();
+  const state = await purge.claim(now);
+  if (!state) return;
+  const user = new UserEntity(env, userId);
+  if (!(await user.exists())) {
+    await purge.delete();
+    return;
+  }
+  try {
+    const noteIds = (await user.getState()).noteIds || [];
+    const batch = noteIds.slice(state.offset, state.offset + TRASH_SCAN_BATCH);
+    const notes = await Promise.all(batch.map(noteId => new NoteEntity(env, noteId).getState()));
+    let earliest = state.earliest;
+    let purged = 0;
+    for (const note of notes) {
+      if (!note.id || !note.deletedAt) continue;
+      const expiresAt = new Date(note.deletedAt).getTime() + TRASH_RETENTION_MS;
+      if (expiresAt <= now) {
+        await purgeNote(env, user, note);
+        purged++;
+      } else {
+        earliest = earliest === null ? expiresAt : Math.min(earliest, expiresAt);
+      }
+    }
+    // Purged notes left the list, so the rest of it moved up by as many places.
+    if (state.offset + batch.length < noteIds.length) await purge.release({ offset: state.offset + batch.length - purged, earliest, dueAt: now });
+    else await purge.release({ offset: 0, earliest: null, dueAt: earliest });
+  } catch (error) {
+    // Left claimed, the batch is tried again once the lease runs out.
+    console.error(`[TRASH PURGE] ${userId}: ${error}`);
+  }
+}
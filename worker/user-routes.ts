@@ -1,148 +1,1333 @@
 import { Hono, Next } from "hono";
 import { Context } from "hono";
 import type { Env } from './core-utils';
-import { UserEntity, NoteEntity } from "./entities";
+import { USERNAME_RESERVATION_MS, UserEntity, NoteChangeLogEntity, NoteEntity, NotebookEntity, NoteRevisionEntity, NoteSearchEntity, SessionEntity, SigningKeyEntity, LoginAttemptEntity, TrashPurgeEntity, UsernameReservationEntity } from "./entities";
+import type { SearchTerm, SessionRecord } from "./entities";
 import { ok, bad, notFound, isStr } from './core-utils';
-import type { Note } from "@shared/types";
+import { hashPassword, verifyPassword } from './passwords';
+import { generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, totpUri, verifyTotp } from './totp';
+import { TRASH_RETENTION_MS, purgeExpiredTrash, purgeNote } from './trash-purge';
+import { BACKUP_VERSION } from "@shared/types";
+import type { AccountBackup, ApiResponse, ImportResult, LoginThrottle, Note, Notebook, NoteChanges, NoteCiphertext, NoteFormat, NoteSort, Page, PasswordUpgradeChallenge, RecoveryCodes, RestoreFinishResult, RestoreMode, RestoreNotesResult, RestoreStarted, SearchResult, SessionInfo, Tag, TwoFactorChallenge, TwoFactorSetup, TwoFactorStatus, VaultKey } from "@shared/types";
 // Define types for our Hono app context for type safety
 type HonoContext = {
   Bindings: Env,
   Variables: {
     userEntity: UserEntity,
     userId: string,
+    sessionId: string,
     body: Record<string, unknown>
   }
 }
-// Helper to create a SHA-256 hash of a string.
-async function createHash(text: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(text);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// lastUsedAt is only rewritten when it is older than this, to avoid a write on every request.
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+// Failed password checks allowed before lockouts start. An IP gets more room since many users can share one.
+const FREE_ATTEMPTS_PER_USER = 5;
+const FREE_ATTEMPTS_PER_IP = 20;
+function loginAttemptKeys(c: Context, userId: string): { user: LoginAttemptEntity; ip: LoginAttemptEntity } {
+    const ip = c.req.header('CF-Connecting-IP') ?? 'unknown';
+    return {
+        user: new LoginAttemptEntity(c.env, `user:${userId}`),
+        ip: new LoginAttemptEntity(c.env, `ip:${ip}`),
+    };
 }
-// Middleware for authenticating a user based on username and password.
-// It now parses the body once and stores it in the context.
-const authenticateUser = async (c: Context<HonoContext>, next: Next) => {
-    const body = await c.req.json();
-    const { username, password } = body;
-    if (!isStr(username) || !isStr(password)) {
-        return bad(c, 'Kimlik bilgileri gereklidir.');
+// Returns the epoch ms until which password checks for this user or IP are blocked, or 0.
+async function getLoginLockout(c: Context, userId: string): Promise<number> {
+    const { user, ip } = loginAttemptKeys(c, userId);
+    const [userLock, ipLock] = await Promise.all([user.getLockedUntil(), ip.getLockedUntil()]);
+    return Math.max(userLock, ipLock);
+}
+async function recordLoginFailure(c: Context, userId: string): Promise<number> {
+    const { user, ip } = loginAttemptKeys(c, userId);
+    const [userLock, ipLock] = await Promise.all([user.recordFailure(FREE_ATTEMPTS_PER_USER), ip.recordFailure(FREE_ATTEMPTS_PER_IP)]);
+    return Math.max(userLock, ipLock);
+}
+// Only the per-user counter is cleared on success; the IP counter decays on its own,
+// otherwise logging into one's own account would reset the budget for guessing others.
+async function clearLoginFailures(c: Context, userId: string): Promise<void> {
+    await loginAttemptKeys(c, userId).user.delete();
+}
+const tooManyAttempts = (c: Context, lockedUntil: number) => {
+    c.header('Retry-After', String(Math.ceil((lockedUntil - Date.now()) / 1000)));
+    return c.json({
+        success: false,
+        error: 'Çok fazla başarısız giriş denemesi. Lütfen daha sonra tekrar deneyin.',
+        data: { retryAt: new Date(lockedUntil).toISOString() },
+    } as ApiResponse<LoginThrottle>, 429);
+};
+// Checks a login secret (or for accounts without one, the password) against the user's stored hash,
+// upgrading legacy hashes once it matches.
+async function checkPassword(user: UserEntity, password: string): Promise<boolean> {
+    const { valid, needsRehash } = await verifyPassword(password, await user.getPasswordHash());
+    if (needsRehash) await user.updatePasswordHash(await hashPassword(password));
+    return valid;
+}
+function toBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+function fromBase64Url(value: string): Uint8Array {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+async function getSigningKey(env: Env): Promise<CryptoKey> {
+    const secret = await new SigningKeyEntity(env, "session").getSecret();
+    return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+// Session tokens have the form `<sessionId>.<expiresAtMs>.<hmac>`.
+async function signSessionToken(env: Env, sessionId: string, expiresAtMs: number): Promise<string> {
+    const payload = `${sessionId}.${expiresAtMs}`;
+    const signature = await crypto.subtle.sign('HMAC', await getSigningKey(env), new TextEncoder().encode(payload));
+    return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+// Returns the session id if the token is well-formed, correctly signed and not expired.
+async function verifySessionToken(env: Env, token: string): Promise<string | null> {
+    const [sessionId, expiresAt, signature] = token.split('.');
+    if (!sessionId || !expiresAt || !signature) return null;
+    if (!(Number(expiresAt) > Date.now())) return null;
+    let signatureBytes: Uint8Array;
+    try {
+        signatureBytes = fromBase64Url(signature);
+    } catch {
+        return null;
     }
-    const userId = username.toLowerCase();
-    const user = new UserEntity(c.env, userId);
-    if (!(await user.exists())) {
-        return notFound(c, 'Kullanıcı bulunamadı veya şifre yanlış.');
+    const valid = await crypto.subtle.verify('HMAC', await getSigningKey(env), signatureBytes, new TextEncoder().encode(`${sessionId}.${expiresAt}`));
+    return valid ? sessionId : null;
+}
+// Checks the second factor: a current TOTP code, or one of the recovery codes, which it uses up.
+async function checkSecondFactor(user: UserEntity, code: string): Promise<boolean> {
+    const { totpSecret, totpLastStep } = await user.getState();
+    if (!totpSecret) return false;
+    const step = await verifyTotp(totpSecret, code.replace(/\s/g, ''), totpLastStep || 0);
+    if (step !== null) return user.useTotpStep(step);
+    return user.useRecoveryCode(await hashRecoveryCode(code));
+}
+// Re-checks the login secret, and with `withCode` the second factor, before a security setting changes.
+// Failures count towards the login lockout. Returns the response to send if the check failed.
+async function recheckCredentials(c: Context, user: UserEntity, body: Record<string, unknown>, withCode: boolean): Promise<Response | null> {
+    const lockedUntil = await getLoginLockout(c, user.id);
+    if (lockedUntil) return tooManyAttempts(c, lockedUntil);
+    // A session from before login secrets; the next login replaces the password hash.
+    if (!(await user.getState()).hasLoginSecret) return bad(c, 'Bu işlem için çıkış yapıp yeniden giriş yapın.');
+    const passwordOk = isLoginSecret(body.loginSecret) && await checkPassword(user, body.loginSecret);
+    if (passwordOk && (!withCode || (isStr(body.code) && await checkSecondFactor(user, body.code)))) return null;
+    const nowLockedUntil = await recordLoginFailure(c, user.id);
+    if (nowLockedUntil) return tooManyAttempts(c, nowLockedUntil);
+    return bad(c, passwordOk ? 'Doğrulama kodu yanlış.' : 'Şifre yanlış.');
+}
+async function createSession(env: Env, user: UserEntity, userAgent: string): Promise<{ token: string; expiresAt: string }> {
+    const now = Date.now();
+    const session: SessionRecord = {
+        id: crypto.randomUUID(),
+        userId: user.id,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+        lastUsedAt: new Date(now).toISOString(),
+        userAgent,
+    };
+    await SessionEntity.create(env, session);
+    await user.addSessionId(session.id);
+    return { token: await signSessionToken(env, session.id, now + SESSION_TTL_MS), expiresAt: session.expiresAt };
+}
+async function revokeSessions(env: Env, user: UserEntity, sessionIds: string[]): Promise<void> {
+    await SessionEntity.deleteMany(env, sessionIds);
+    await user.removeSessionIds(sessionIds);
+}
+// Validates the wrapped data key sent by the client. The server never unwraps it.
+// A login secret is the base64 of 32 bytes the client derives from the password (deriveLoginSecret).
+function isLoginSecret(v: unknown): v is string {
+    return isStr(v) && /^[A-Za-z0-9+/]{43}=$/.test(v);
+}
+function isVaultKey(v: unknown): v is VaultKey {
+    if (typeof v !== 'object' || v === null) return false;
+    const k = v as Record<string, unknown>;
+    return isStr(k.salt) && isStr(k.iv) && isStr(k.wrappedKey) && typeof k.iterations === 'number' && k.iterations > 0;
+}
+// Parses an `If-Match` header carrying a note version (`"3"`, `W/"3"` or `3`). Returns null if absent or malformed.
+function parseIfMatch(header: string | undefined): number | null {
+    const match = header?.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+    return match ? Number(match[1]) : null;
+}
+// The strong ETag of a note, which is its storage version; the same value PUT expects back as `If-Match`.
+function noteETag(version: number | undefined): string {
+    return `"${version ?? 0}"`;
+}
+// Whether an `If-None-Match` header (`*` or a list of ETags) matches `etag`. Uses the weak comparison
+// the header calls for, so `W/"3"` matches `"3"` too.
+function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+    if (!header) return false;
+    return header.split(',').some(tag => {
+        const t = tag.trim();
+        return t === '*' || t === etag || t === `W/${etag}`;
+    });
+}
+// Picks the encrypted note payload out of a request body, or null if it is incomplete.
+function readCiphertext(body: Record<string, unknown>): NoteCiphertext | null {
+    const { ciphertext, iv, salt } = body;
+    if (!isStr(ciphertext) || !isStr(iv) || !isStr(salt)) return null;
+    return { ciphertext, iv, salt };
+}
+// The encrypted list preview is small; anything much larger than a title and excerpt is rejected.
+const MAX_PREVIEW_LENGTH = 8192;
+// Picks the encrypted `preview` out of a request body, or null if absent or malformed.
+function readPreview(body: Record<string, unknown>): NoteCiphertext | null {
+    const { preview } = body;
+    if (typeof preview !== 'object' || preview === null) return null;
+    const encrypted = readCiphertext(preview as Record<string, unknown>);
+    return encrypted && encrypted.ciphertext.length <= MAX_PREVIEW_LENGTH ? encrypted : null;
+}
+// Most note list entries GET /api/notes reads for one page, however many of them are archived.
+const MAX_LIST_SCAN = 500;
+// GET /api/notes/changes answers with a reset once more notes than this have changed; reloading the
+// list is cheaper then.
+const MAX_SYNC_CHANGES = 500;
+// Builds the note list index for accounts created before it existed.
+async function ensureNoteListIndexed(env: Env, user: UserEntity, userId: string): Promise<void> {
+    const userState = await user.getState();
+    if (userState.noteListIndexed) return;
+    const notes = await Promise.all((userState.noteIds || []).map(noteId => new NoteEntity(env, noteId).getState()));
+    await NoteEntity.rebuildList(env, userId, notes);
+    await user.markNoteListIndexed();
+}
+// A note as listed by GET /api/notes: without its content when the preview can stand in for it.
+function summarizeNote(note: Note): Note {
+    if (!note.preview) return note;
+    const { ciphertext: _ciphertext, iv: _iv, salt: _salt, ...summary } = note;
+    return summary;
+}
+// Reads a new note from a request body: the encrypted content plus optional notebook, tags, format and
+// preview. Returns the note ready to be stored, or the error message for the client.
+async function readNewNote(env: Env, user: UserEntity, userId: string, body: Record<string, unknown>, now: string): Promise<Note | string> {
+    const encrypted = readCiphertext(body);
+    if (!encrypted) return 'Şifrelenmiş not içeriği gereklidir.';
+    const notebookId = await resolveNotebookId(env, userId, body.notebookId);
+    if (notebookId === undefined) return 'Defter bulunamadı.';
+    const tags = body.tags === undefined ? [] : await readNoteTags(user, body.tags);
+    if (!tags) return 'Geçersiz etiketler.';
+    const format = body.format ?? 'plain';
+    if (!isNoteFormat(format)) return 'Geçersiz not biçimi.';
+    return {
+        id: crypto.randomUUID(),
+        title: "",
+        content: "",
+        ...encrypted,
+        userId,
+        notebookId,
+        tags,
+        format,
+        preview: readPreview(body),
+        createdAt: now,
+        updatedAt: now,
+        contentVersion: 1, // the version a new note is stored at
+    };
+}
+// Stores a note read by readNewNote with its first revision and search postings. The caller adds
+// the id to the user, so imports can add a whole batch at once.
+async function storeNewNote(env: Env, user: UserEntity, note: Note, searchTokens: Record<string, number> | null): Promise<void> {
+    await NoteEntity.create(env, note);
+    await NoteEntity.relist(env, null, note);
+    await user.adjustTagCounts([], note.tags ?? []);
+    await NoteRevisionEntity.append(env, note.id, { ciphertext: note.ciphertext ?? "", iv: note.iv ?? "", salt: note.salt ?? "" }, note.updatedAt);
+    if (searchTokens) await NoteSearchEntity.indexNote(env, note.userId, note.id, searchTokens);
+}
+const MAX_IMPORT_BATCH = 100;
+// The original dates of an imported note. Missing dates fall back to `now` (createdAt to updatedAt),
+// dates in the future are capped at `now`. Returns null if a date is given but cannot be parsed.
+function readImportTimestamps(body: Record<string, unknown>, now: string): { createdAt: string; updatedAt: string } | null {
+    const read = (value: unknown, fallback: string) => {
+        if (value === undefined || value === null) return fallback;
+        const time = isStr(value) ? Date.parse(value) : NaN;
+        if (Number.isNaN(time)) return null;
+        return new Date(Math.min(time, Date.parse(now))).toISOString();
+    };
+    const updatedAt = read(body.updatedAt, now);
+    const createdAt = updatedAt && read(body.createdAt, updatedAt);
+    if (!updatedAt || !createdAt) return null;
+    // A note cannot have been changed before it was created.
+    return { createdAt, updatedAt: createdAt > updatedAt ? createdAt : updatedAt };
+}
+// Flags and dates of a restored note besides the ones readNewNote and readImportTimestamps handle.
+// Anything malformed is dropped rather than failing the note.
+function readRestoredFlags(body: Record<string, unknown>): Partial<Note> {
+    const flags: Partial<Note> = {};
+    const date = (value: unknown) => (isStr(value) && !Number.isNaN(Date.parse(value)) ? value : null);
+    if (body.pinned === true) Object.assign(flags, { pinned: true, pinnedAt: date(body.pinnedAt) });
+    if (body.favorite === true) flags.favorite = true;
+    if (body.archived === true) Object.assign(flags, { archived: true, archivedAt: date(body.archivedAt) });
+    if (date(body.deletedAt)) flags.deletedAt = date(body.deletedAt);
+    return flags;
+}
+// The tags or notebooks of a backup, or null if any of them lacks an id or its encrypted name.
+function readBackupEntries(entries: unknown): Record<string, unknown>[] | null {
+    if (!Array.isArray(entries)) return null;
+    const records = entries.map(entry => (typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {}));
+    return records.every(r => isStr(r.id) && readCiphertext(r)) ? records : null;
+}
+// Adds the tags of a backup that the user does not have; with `replace`, tags the user has take the
+// backup's names. Tag ids are only unique per user, so they are kept as they are. Returns the ids
+// usable on restored notes.
+async function restoreTags(user: UserEntity, tags: Record<string, unknown>[], replace: boolean): Promise<Set<string>> {
+    const known = new Set((await user.getTags()).map(t => t.id));
+    const usable = new Set(replace ? [] : known);
+    for (const tag of tags) {
+        const id = tag.id as string;
+        const encrypted = readCiphertext(tag)!;
+        if (!known.has(id)) await user.addTag({ id, name: "", ...encrypted, count: 0 });
+        else if (replace) await user.updateTag(id, encrypted);
+        usable.add(id);
     }
-    const storedHash = await user.getPasswordHash();
-    const providedHash = await createHash(password);
-    if (storedHash !== providedHash) {
-        return bad(c, 'Kullanıcı bulunamadı veya şifre yanlış.');
+    return usable;
+}
+// Adds the notebooks of a backup that the user does not have, parents before children; with `replace`,
+// notebooks the user has take the backup's name and place. Notebook ids are global, so one taken by
+// someone else gets a new id. Returns backup id -> id in the account.
+async function restoreNotebooks(env: Env, user: UserEntity, userId: string, entries: Record<string, unknown>[], replace: boolean): Promise<Map<string, string>> {
+    const owned = new Set((await user.getState()).notebookIds || []);
+    const inBackup = new Set(entries.map(n => n.id as string));
+    const ids = new Map<string, string>();
+    const now = new Date().toISOString();
+    let pending = entries;
+    while (pending.length > 0) {
+        // A notebook is ready once its parent has been placed; parents missing from the backup count as top level.
+        const ready = pending.filter(n => !isStr(n.parentId) || !inBackup.has(n.parentId) || ids.has(n.parentId));
+        // Whatever is left forms a cycle; those notebooks are dropped.
+        if (ready.length === 0) break;
+        for (const n of ready) {
+            const id = n.id as string;
+            const placement = {
+                ...readCiphertext(n)!,
+                parentId: isStr(n.parentId) ? ids.get(n.parentId) ?? null : null,
+                order: typeof n.order === 'number' ? n.order : 0,
+            };
+            if (owned.has(id)) {
+                if (replace) await new NotebookEntity(env, id).patch({ ...placement, updatedAt: now });
+                ids.set(id, id);
+                continue;
+            }
+            const notebookId = (await new NotebookEntity(env, id).exists()) ? crypto.randomUUID() : id;
+            const notebook: Notebook = {
+                id: notebookId,
+                userId,
+                name: "",
+                ...placement,
+                createdAt: isStr(n.createdAt) ? n.createdAt : now,
+                updatedAt: now,
+            };
+            await NotebookEntity.create(env, notebook);
+            await user.addNotebookId(notebookId);
+            ids.set(id, notebookId);
+        }
+        pending = pending.filter(n => !ready.includes(n));
+    }
+    return ids;
+}
+// Overwrites one of the user's notes with its copy from a backup. The id stays, so the manual order
+// still holds; the old content is kept in the note's history. Returns false if the note changed meanwhile.
+async function overwriteNote(env: Env, user: UserEntity, noteId: string, restored: Note, searchTokens: Record<string, number> | null): Promise<boolean> {
+    const note = new NoteEntity(env, noteId);
+    const current = await note.getVersionedState();
+    const { id: _id, ...fields } = restored;
+    // Flags the backup does not set are cleared, not left as they were.
+    const updated = await note.patchContent(current.version ?? 0, {
+        pinned: false, pinnedAt: null, favorite: false, archived: false, archivedAt: null, deletedAt: null,
+        ...fields,
+    });
+    if (!updated) return false;
+    await user.adjustTagCounts(current.tags || [], restored.tags || []);
+    await NoteRevisionEntity.append(env, noteId, { ciphertext: restored.ciphertext ?? "", iv: restored.iv ?? "", salt: restored.salt ?? "" }, restored.updatedAt);
+    if (searchTokens) await NoteSearchEntity.indexNote(env, user.id, noteId, searchTokens);
+    return true;
+}
+async function loadNotebooks(env: Env, user: UserEntity): Promise<Notebook[]> {
+    const notebookIds = (await user.getState()).notebookIds || [];
+    return Promise.all(notebookIds.map(id => new NotebookEntity(env, id).getState()));
+}
+// Resolves a `notebookId`/`parentId` from a request body to one of the user's notebooks.
+// Returns null for "no notebook" and undefined if the id is not one of the user's notebooks.
+async function resolveNotebookId(env: Env, userId: string, value: unknown): Promise<string | null | undefined> {
+    if (value === null || value === undefined || value === '') return null;
+    if (!isStr(value)) return undefined;
+    const notebook = new NotebookEntity(env, value);
+    if (!(await notebook.exists())) return undefined;
+    return (await notebook.getState()).userId === userId ? value : undefined;
+}
+const NOTE_FORMATS: readonly NoteFormat[] = ['plain', 'markdown'];
+function isNoteFormat(v: unknown): v is NoteFormat {
+    return NOTE_FORMATS.includes(v as NoteFormat);
+}
+const NOTE_SORTS: readonly NoteSort[] = ['updated', 'created', 'title', 'manual'];
+function isNoteSort(v: unknown): v is NoteSort {
+    return NOTE_SORTS.includes(v as NoteSort);
+}
+const MAX_TAGS_PER_NOTE = 50;
+// Reads a note's `tags` from a request body: de-duplicated ids of the user's own tags.
+// Returns null if the list is malformed or names a tag the user does not have.
+async function readNoteTags(user: UserEntity, value: unknown): Promise<string[] | null> {
+    if (!Array.isArray(value) || value.length > MAX_TAGS_PER_NOTE || !value.every(isStr)) return null;
+    const known = new Set((await user.getTags()).map(t => t.id));
+    const tags = [...new Set(value as string[])];
+    return tags.every(id => known.has(id)) ? tags : null;
+}
+// Rewrites the tags of every note carrying `tagId` and recounts all tags from the result.
+async function rewriteTagAcrossNotes(env: Env, user: UserEntity, tagId: string, rewrite: (tags: string[]) => string[]): Promise<void> {
+    const counts = new Map<string, number>();
+    const noteIds = (await user.getState()).noteIds || [];
+    await Promise.all(noteIds.map(async (noteId) => {
+        const note = new NoteEntity(env, noteId);
+        let tags = (await note.getState()).tags || [];
+        if (tags.includes(tagId)) {
+            tags = [...new Set(rewrite(tags))];
+            await note.patch({ tags });
+        }
+        for (const id of tags) counts.set(id, (counts.get(id) ?? 0) + 1);
+    }));
+    await user.setTagCounts(counts);
+}
+// Blind search tokens are hex HMAC digests computed in the browser; see NoteSearchEntity.
+const SEARCH_TOKEN_PATTERN = /^[0-9a-f]{32}$/;
+const MAX_SEARCH_TOKENS_PER_NOTE = 5000;
+const MAX_SEARCH_TERMS = 8;
+// Picks `searchTokens` (token -> occurrence count) out of a request body, or null if absent or malformed.
+function readSearchTokens(body: Record<string, unknown>): Record<string, number> | null {
+    const tokens = body.searchTokens;
+    if (typeof tokens !== 'object' || tokens === null || Array.isArray(tokens)) return null;
+    const entries = Object.entries(tokens as Record<string, unknown>);
+    if (entries.length > MAX_SEARCH_TOKENS_PER_NOTE) return null;
+    const valid = entries.every(([token, count]) => SEARCH_TOKEN_PATTERN.test(token) && Number.isInteger(count) && (count as number) > 0);
+    return valid ? tokens as Record<string, number> : null;
+}
+// Parses `?q=` as comma-separated `<exact>.<prefix>` token pairs, one pair per query word.
+function parseSearchQuery(q: string | undefined): SearchTerm[] | null {
+    const terms = (q ?? '').split(',').filter(Boolean).map(pair => {
+        const [exact, prefix] = pair.split('.');
+        return { exact, prefix };
+    });
+    if (terms.length === 0 || terms.length > MAX_SEARCH_TERMS) return null;
+    return terms.every(t => SEARCH_TOKEN_PATTERN.test(t.exact ?? '') && SEARCH_TOKEN_PATTERN.test(t.prefix ?? '')) ? terms : null;
+}
+// Middleware for authenticating a request with an `Authorization: Bearer <token>` session token.
+// It also parses the JSON body (if any) once and stores it in the context.
+const authenticateUser = async (c: Context<HonoContext>, next: Next) => {
+    const unauthorized = () => c.json({ success: false, error: 'Oturum geçersiz veya süresi dolmuş.' }, 401);
+    const header = c.req.header('Authorization') ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+    const sessionId = token ? await verifySessionToken(c.env, token) : null;
+    if (!sessionId) return unauthorized();
+    const session = new SessionEntity(c.env, sessionId);
+    if (!(await session.exists())) return unauthorized();
+    const sessionState = await session.getState();
+    const user = new UserEntity(c.env, sessionState.userId);
+    if (!(await user.exists())) return unauthorized();
+    if (Date.now() - new Date(sessionState.lastUsedAt).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        await session.patch({ lastUsedAt: new Date().toISOString() });
     }
+    const body = c.req.header('Content-Type')?.includes('application/json')
+        ? await c.req.json<Record<string, unknown>>().catch(() => ({}))
+        : {};
     c.set('userEntity', user);
-    c.set('userId', userId);
+    c.set('userId', sessionState.userId);
+    c.set('sessionId', sessionId);
     c.set('body', body); // Store the parsed body in context
     await next();
 };
 export function userRoutes(app: Hono<{ Bindings: Env }>) {
   // --- User Registration ---
   app.post('/api/auth/register', async (c) => {
-    const { username, password } = await c.req.json<{ username?: string; password?: string }>();
-    if (!isStr(username) || !isStr(password)) return bad(c, 'Kullanıcı adı ve şifre gereklidir.');
+    // The password never reaches the server, so its length is checked by the client.
+    const { username, loginSecret, vaultKey } = await c.req.json<{ username?: string; loginSecret?: string; vaultKey?: unknown }>();
+    if (!isStr(username) || !isLoginSecret(loginSecret)) return bad(c, 'Kullanıcı adı ve şifre gereklidir.');
+    if (!isVaultKey(vaultKey)) return bad(c, 'Şifreleme anahtarı gereklidir.');
     if (username.length < 3) return bad(c, 'Kullanıcı adı en az 3 karakter olmalıdır.');
-    if (password.length < 6) return bad(c, 'Şifre en az 6 karakter olmalıdır.');
     const userId = username.toLowerCase();
     const user = new UserEntity(c.env, userId);
-    if (await user.exists()) return bad(c, 'Bu kullanıcı adı zaten alınmış.');
-    const passwordHash = await createHash(password);
+    if (await user.exists() || await new UsernameReservationEntity(c.env, userId).getHolder()) return bad(c, 'Bu kullanıcı adı zaten alınmış.');
     await UserEntity.create(c.env, {
       id: userId,
       username: username,
-      passwordHash: passwordHash,
-      noteIds: []
+      ...(await hashPassword(loginSecret)),
+      noteIds: [],
+      notebookIds: [],
+      tags: [],
+      noteSort: 'updated',
+      noteOrder: [],
+      noteListIndexed: true,
+      hasLoginSecret: true,
+      sessionIds: [],
+      vaultKey,
+      renamedFrom: null,
+      reservedUsernames: [],
+      totpSecret: null,
+      totpPendingSecret: null,
+      totpLastStep: 0,
+      recoveryCodeHashes: []
     });
     return ok(c, { success: true });
   });
   // --- User Login ---
   app.post('/api/auth/login', async (c) => {
-    const { username, password } = await c.req.json<{ username?: string; password?: string }>();
-    if (!isStr(username) || !isStr(password)) return bad(c, 'Kullanıcı adı ve şifre gereklidir.');
+    const { username, loginSecret, password, code } = await c.req.json<{ username?: string; loginSecret?: string; password?: string; code?: string }>();
+    if (!isStr(username) || !isLoginSecret(loginSecret)) return bad(c, 'Kullanıcı adı ve şifre gereklidir.');
     const userId = username.toLowerCase();
+    const lockedUntil = await getLoginLockout(c, userId);
+    if (lockedUntil) return tooManyAttempts(c, lockedUntil);
     const user = new UserEntity(c.env, userId);
-    if (!(await user.exists())) return notFound(c, 'Kullanıcı bulunamadı veya şifre yanlış.');
-    const storedHash = await user.getPasswordHash();
-    const providedHash = await createHash(password);
-    if (storedHash !== providedHash) return bad(c, 'Kullanıcı bulunamadı veya şifre yanlış.');
+    const exists = await user.exists();
+    // Accounts from before login secrets are checked against the password, which is asked for once;
+    // after a successful login the hash is replaced by one of the login secret.
+    const upgrading = exists && !(await user.getState()).hasLoginSecret;
+    if (upgrading && !isStr(password)) return ok(c, { passwordUpgradeRequired: true } as PasswordUpgradeChallenge);
+    const credential = upgrading ? password : loginSecret;
+    // Unknown usernames count against the same budgets, so they cannot be probed for free.
+    if (!exists || !isStr(credential) || !(await checkPassword(user, credential))) {
+      const nowLockedUntil = await recordLoginFailure(c, userId);
+      if (nowLockedUntil) return tooManyAttempts(c, nowLockedUntil);
+      return exists
+        ? bad(c, 'Kullanıcı bulunamadı veya şifre yanlış.')
+        : notFound(c, 'Kullanıcı bulunamadı veya şifre yanlış.');
+    }
     const userState = await user.getState();
-    // Defensive check to ensure noteIds is an array
-    const notePromises = (userState.noteIds || []).map(noteId => new NoteEntity(c.env, noteId).getState());
-    const notes = await Promise.all(notePromises);
-    return ok(c, { username: userState.username, notes: notes.filter(Boolean) });
+    // With two-factor authentication on, the password alone only earns a request for the code. The failure
+    // counter is cleared once both are right, so codes cannot be guessed with a known password.
+    if (userState.totpSecret) {
+      if (!isStr(code) || !code.trim()) return ok(c, { twoFactorRequired: true } as TwoFactorChallenge);
+      if (!(await checkSecondFactor(user, code))) {
+        const nowLockedUntil = await recordLoginFailure(c, userId);
+        if (nowLockedUntil) return tooManyAttempts(c, nowLockedUntil);
+        return bad(c, 'Doğrulama kodu yanlış.');
+      }
+    }
+    await clearLoginFailures(c, userId);
+    if (upgrading) await user.updateLoginSecretHash(await hashPassword(loginSecret));
+    // Read before the client starts paging, so nothing written meanwhile can fall between the pages and the first sync.
+    const { seq: syncCursor } = await new NoteChangeLogEntity(c.env, userId).getState();
+    const session = await createSession(c.env, user, c.req.header('User-Agent') ?? '');
+    // Notes are not part of the login response; the client pages through GET /api/notes.
+    return ok(c, { token: session.token, expiresAt: session.expiresAt, syncCursor, username: userState.username, vaultKey: userState.vaultKey ?? null });
+  });
+  // --- Authenticated Session Routes ---
+  const sessionRoutes = new Hono<HonoContext>();
+  // --- Logout (revokes the current session) ---
+  sessionRoutes.post('/logout', authenticateUser, async (c) => {
+    await revokeSessions(c.env, c.get('userEntity'), [c.get('sessionId')]);
+    return ok(c, { success: true });
+  });
+  // --- List Sessions ---
+  sessionRoutes.get('/sessions', authenticateUser, async (c) => {
+    const user = c.get('userEntity');
+    const currentId = c.get('sessionId');
+    const { sessionIds } = await user.getState();
+    const records = await Promise.all((sessionIds || []).map(id => new SessionEntity(c.env, id).getState()));
+    // Expired sessions are pruned lazily here instead of by a background job.
+    const now = Date.now();
+    const expired = records.filter(s => !s.userId || new Date(s.expiresAt).getTime() <= now).map(s => s.id);
+    if (expired.length > 0) await revokeSessions(c.env, user, expired);
+    const sessions: SessionInfo[] = records
+      .filter(s => !expired.includes(s.id))
+      .map(({ id, createdAt, expiresAt, lastUsedAt, userAgent }) => ({ id, createdAt, expiresAt, lastUsedAt, userAgent, current: id === currentId }))
+      .sort((a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime());
+    return ok(c, sessions);
+  });
+  // --- Revoke Session ---
+  sessionRoutes.delete('/sessions/:sessionId', authenticateUser, async (c) => {
+    const user = c.get('userEntity');
+    const sessionId = c.req.param('sessionId');
+    const { sessionIds } = await user.getState();
+    if (!(sessionIds || []).includes(sessionId)) return notFound(c, 'Oturum bulunamadı.');
+    await revokeSessions(c.env, user, [sessionId]);
+    return ok(c, { success: true });
   });
+  app.route('/api/auth', sessionRoutes);
   // --- Authenticated Note Routes ---
   const noteRoutes = new Hono<HonoContext>();
   noteRoutes.use('*', authenticateUser);
   // --- Create Note ---
   noteRoutes.post('/', async (c) => {
+    const user = c.get('userEntity');
+    const newNote = await readNewNote(c.env, user, c.get('userId'), c.get('body'), new Date().toISOString());
+    if (typeof newNote === 'string') return bad(c, newNote);
+    await storeNewNote(c.env, user, newNote, readSearchTokens(c.get('body')));
+    await user.addNoteId(newNote.id);
+    return ok(c, await new NoteEntity(c.env, newNote.id).getVersionedState());
+  });
+  // --- Import Notes ---
+  // `notes` holds up to MAX_IMPORT_BATCH notes, each shaped like the body of POST / plus optional
+  // `createdAt` and `updatedAt`. Files are read and encrypted in the browser, so only ciphertext arrives.
+  // Each note succeeds or fails on its own; failures are reported by their index in the batch.
+  noteRoutes.post('/import', async (c) => {
     const user = c.get('userEntity');
     const userId = c.get('userId');
-    const noteId = crypto.randomUUID();
+    const { notes: entries } = c.get('body');
+    if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_IMPORT_BATCH) return bad(c, 'Geçersiz içe aktarma isteği.');
+    const result: ImportResult = { created: [], failed: [] };
     const now = new Date().toISOString();
-    const newNote: Note = {
-      id: noteId,
-      title: "İsimsiz Not",
-      content: "Yeni notunuzu buraya yazın...",
-      userId: userId,
-      createdAt: now,
-      updatedAt: now,
+    for (const [index, entry] of entries.entries()) {
+      const body = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {};
+      const newNote = await readNewNote(c.env, user, userId, body, now);
+      const timestamps = typeof newNote === 'string' ? null : readImportTimestamps(body, now);
+      if (typeof newNote === 'string' || !timestamps) {
+        result.failed.push({ index, error: typeof newNote === 'string' ? newNote : 'Geçersiz tarih.' });
+        continue;
+      }
+      Object.assign(newNote, timestamps);
+      await storeNewNote(c.env, user, newNote, readSearchTokens(body));
+      result.created.push(newNote);
+    }
+    await user.addNoteIds(result.created.map(n => n.id));
+    result.created = await Promise.all(result.created.map(n => new NoteEntity(c.env, n.id).getVersionedState()));
+    return ok(c, result);
+  });
+  // --- List Notes (summaries, most recently updated first) ---
+  // Archived notes are skipped; they are listed by GET /archived when the archive is opened.
+  noteRoutes.get('/', async (c) => {
+    const userId = c.get('userId');
+    await ensureNoteListIndexed(c.env, c.get('userEntity'), userId);
+    const limit = Math.min(Math.max(Number(c.req.query('limit')) || 50, 1), 100);
+    // The list index holds archived notes too, so it is read on until `limit` notes are left after
+    // skipping them. At most MAX_LIST_SCAN entries are read per request; a short page with a `next`
+    // cursor is only returned once that many were skipped.
+    const index = NoteEntity.listIndex(c.env, userId);
+    const page: Page<Note> = { items: [], next: c.req.query('cursor') || null };
+    let scanned = 0;
+    do {
+      const { items: keys, next } = await index.page(page.next, Math.min(limit - page.items.length, MAX_LIST_SCAN - scanned));
+      const notes = await Promise.all(keys.map(key => new NoteEntity(c.env, NoteEntity.listedNoteId(key)).getVersionedState()));
+      page.items.push(...notes.filter(n => n.id && n.userId === userId && !n.archived).map(summarizeNote));
+      page.next = next;
+      scanned += keys.length;
+    } while (page.next && page.items.length < limit && scanned < MAX_LIST_SCAN);
+    return ok(c, page);
+  });
+  // --- Note Changes Since A Change Log Cursor (for client sync) ---
+  noteRoutes.get('/changes', async (c) => {
+    const userId = c.get('userId');
+    // Every client syncs through here, so this is where a due trash purge gets its turn; it runs after
+    // the response is sent.
+    c.executionCtx.waitUntil(purgeExpiredTrash(c.env, userId));
+    const since = Number(c.req.query('since') ?? '');
+    const log = await new NoteChangeLogEntity(c.env, userId).getState();
+    // A cursor from before the oldest kept entry, or from another account's log, cannot be caught up from.
+    let reset = !Number.isInteger(since) || since < log.floor || since > log.seq;
+    const noteIds = reset ? [] : Object.entries(log.changed).filter(([, seq]) => seq > since).map(([noteId]) => noteId);
+    // A client that is too far behind reloads its list page by page.
+    reset ||= noteIds.length > MAX_SYNC_CHANGES;
+    const notes = reset ? [] : await Promise.all(noteIds.map(noteId => new NoteEntity(c.env, noteId).getVersionedState()));
+    // Notes that are gone, or were never this user's, are reported as deleted. Archived notes are sent
+    // too, so clients drop them from the list.
+    const changes: NoteChanges = {
+      notes: notes.filter(n => n.id && n.userId === userId),
+      deleted: noteIds.filter((_, i) => !notes[i].id || notes[i].userId !== userId),
+      reset,
+      cursor: log.seq,
     };
-    await NoteEntity.create(c.env, newNote);
-    await user.addNoteId(noteId);
-    return ok(c, newNote);
+    return ok(c, changes);
+  });
+  // --- Search Notes ---
+  // `q` holds blinded tokens, not words; results are ranked, and snippets are built in the browser.
+  noteRoutes.get('/search', async (c) => {
+    const user = c.get('userEntity');
+    const terms = parseSearchQuery(c.req.query('q'));
+    if (!terms) return bad(c, 'Geçersiz arama sorgusu.');
+    const ownNoteIds = new Set((await user.getState()).noteIds || []);
+    const results: SearchResult[] = (await NoteSearchEntity.search(c.env, c.get('userId'), terms)).filter(r => ownNoteIds.has(r.noteId));
+    return ok(c, results);
+  });
+  // --- Notes Missing From The Search Index (saved before search existed) ---
+  noteRoutes.get('/search/unindexed', async (c) => {
+    const user = c.get('userEntity');
+    const noteIds = (await user.getState()).noteIds || [];
+    const indexed = await Promise.all(noteIds.map(noteId => NoteSearchEntity.isIndexed(c.env, noteId)));
+    return ok(c, noteIds.filter((_, i) => !indexed[i]));
+  });
+  // --- List Archived Notes ---
+  noteRoutes.get('/archived', async (c) => {
+    const noteIds = (await c.get('userEntity').getState()).noteIds || [];
+    const notes = await Promise.all(noteIds.map(noteId => new NoteEntity(c.env, noteId).getVersionedState()));
+    return ok(c, notes.filter(n => n.archived));
+  });
+  // --- Export All Notes ---
+  // Everything except the trash, in full. The notes are encrypted, so the browser decrypts them
+  // and builds the ZIP of Markdown files itself.
+  noteRoutes.get('/export', async (c) => {
+    const noteIds = (await c.get('userEntity').getState()).noteIds || [];
+    const notes = await Promise.all(noteIds.map(noteId => new NoteEntity(c.env, noteId).getVersionedState()));
+    return ok(c, notes.filter(n => n.id && !n.deletedAt));
+  });
+  // --- Empty The Trash ---
+  noteRoutes.delete('/trash', async (c) => {
+    const user = c.get('userEntity');
+    const noteIds = (await user.getState()).noteIds || [];
+    const notes = await Promise.all(noteIds.map(noteId => new NoteEntity(c.env, noteId).getState()));
+    const trashed = notes.filter(n => n.deletedAt);
+    for (const note of trashed) await purgeNote(c.env, user, note);
+    return ok(c, { deleted: trashed.map(n => n.id) });
+  });
+  // --- Get Note ---
+  // Answers `If-None-Match` with 304 while the note is unchanged. `no-cache` makes caches revalidate every time.
+  noteRoutes.get('/:noteId', async (c) => {
+    const note = new NoteEntity(c.env, c.req.param('noteId'));
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getVersionedState();
+    if (noteState.userId !== c.get('userId')) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const etag = noteETag(noteState.version);
+    c.header('ETag', etag);
+    c.header('Cache-Control', 'private, no-cache');
+    if (matchesIfNoneMatch(c.req.header('If-None-Match'), etag)) return c.body(null, 304);
+    return ok(c, noteState);
   });
   // --- Update Note ---
+  // Requires `If-Match: "<version>"`; a version from before the content last changed gets 409 with the
+  // server's copy as `data`. Metadata changes in between (pin, tags, archive, ...) are not a conflict.
   noteRoutes.put('/:noteId', async (c) => {
     const userId = c.get('userId');
     const noteId = c.req.param('noteId');
-    const { title, content } = c.get('body'); // Read from context instead of parsing body again
+    const encrypted = readCiphertext(c.get('body')); // Read from context instead of parsing body again
+    if (!encrypted) return bad(c, 'Şifrelenmiş not içeriği gereklidir.');
+    const expectedVersion = parseIfMatch(c.req.header('If-Match'));
+    if (expectedVersion === null) return c.json({ success: false, error: 'Not sürümü (If-Match) gereklidir.' }, 428);
     const note = new NoteEntity(c.env, noteId);
     if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
     const noteState = await note.getState();
     if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
-    await note.patch({
-        ...(typeof title === 'string' && { title }),
-        ...(typeof content === 'string' && { content }),
-        updatedAt: new Date().toISOString(),
+    if (noteState.deletedAt) return bad(c, 'Çöp kutusundaki notlar düzenlenemez.');
+    // Plaintext fields are cleared so notes saved before encryption do not keep a readable copy.
+    const now = new Date().toISOString();
+    // A save without a preview drops the old one, which no longer matches the content.
+    const updated = await note.patchContent(expectedVersion, {
+        ...encrypted,
+        title: "",
+        content: "",
+        preview: readPreview(c.get('body')),
+        updatedAt: now,
     });
-    return ok(c, await note.getState());
+    if (!updated) {
+      return c.json({ success: false, error: 'Not başka bir yerde değiştirildi.', data: await note.getVersionedState() } as ApiResponse<Note>, 409);
+    }
+    await NoteRevisionEntity.appendOrMerge(c.env, noteId, encrypted, now);
+    const searchTokens = readSearchTokens(c.get('body'));
+    if (searchTokens) await NoteSearchEntity.indexNote(c.env, userId, noteId, searchTokens);
+    return ok(c, updated);
+  });
+  // --- Replace A Note's Search Tokens (without saving a new version) ---
+  noteRoutes.put('/:noteId/search-tokens', async (c) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const searchTokens = readSearchTokens(c.get('body'));
+    if (!searchTokens) return bad(c, 'Geçersiz arama dizini.');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    await NoteSearchEntity.indexNote(c.env, userId, noteId, searchTokens);
+    return ok(c, { success: true });
+  });
+  // --- Replace A Note's List Preview (without saving a new version) ---
+  noteRoutes.put('/:noteId/preview', async (c) => {
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== c.get('userId')) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const preview = readPreview(c.get('body'));
+    if (!preview) return bad(c, 'Geçersiz önizleme.');
+    await note.patch({ preview });
+    return ok(c, { success: true });
+  });
+  // --- Move Note To Another Notebook ---
+  // Only the notebook changes, so no revision is kept; `notebookId: null` takes the note out of any notebook.
+  noteRoutes.put('/:noteId/notebook', async (c) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const notebookId = await resolveNotebookId(c.env, userId, c.get('body').notebookId);
+    if (notebookId === undefined) return bad(c, 'Defter bulunamadı.');
+    await note.patch({ notebookId });
+    return ok(c, await note.getVersionedState());
+  });
+  // --- Set A Note's Tags ---
+  noteRoutes.put('/:noteId/tags', async (c) => {
+    const user = c.get('userEntity');
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const tags = await readNoteTags(user, c.get('body').tags);
+    if (!tags) return bad(c, 'Geçersiz etiketler.');
+    await note.patch({ tags });
+    await user.adjustTagCounts(noteState.tags || [], tags);
+    return ok(c, await note.getVersionedState());
+  });
+  // --- Switch A Note Between Plain Text And Markdown ---
+  noteRoutes.put('/:noteId/format', async (c) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const { format } = c.get('body');
+    if (!isNoteFormat(format)) return bad(c, 'Geçersiz not biçimi.');
+    await note.patch({ format });
+    return ok(c, await note.getVersionedState());
+  });
+  // --- Pin / Unpin Note ---
+  noteRoutes.put('/:noteId/pin', async (c) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const { pinned } = c.get('body');
+    if (typeof pinned !== 'boolean') return bad(c, 'Geçersiz istek.');
+    const now = new Date().toISOString();
+    // Re-pinning an already pinned note keeps its place in the pinned section.
+    const pinnedAt = pinned ? (noteState.pinnedAt ?? now) : null;
+    await note.patch({ pinned, pinnedAt });
+    return ok(c, await note.getVersionedState());
+  });
+  // --- Mark / Unmark Note As Favourite ---
+  noteRoutes.put('/:noteId/favorite', async (c) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const { favorite } = c.get('body');
+    if (typeof favorite !== 'boolean') return bad(c, 'Geçersiz istek.');
+    await note.patch({ favorite });
+    return ok(c, await note.getVersionedState());
+  });
+  // --- List Note Revisions (newest first) ---
+  noteRoutes.get('/:noteId/revisions', async (c) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const cursor = c.req.query('cursor') || null;
+    const limit = Math.min(Math.max(Number(c.req.query('limit')) || 20, 1), 50);
+    return ok(c, await NoteRevisionEntity.pageForNote(c.env, noteId, cursor, limit));
   });
   // --- Delete Note ---
+  // Moves the note to the trash. It keeps its tags, revisions and search postings so it can be restored as it was.
   noteRoutes.delete('/:noteId', async (c) => {
-    const user = c.get('userEntity');
     const userId = c.get('userId');
     const noteId = c.req.param('noteId');
     const note = new NoteEntity(c.env, noteId);
     if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
     const noteState = await note.getState();
     if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
-    await NoteEntity.delete(c.env, noteId);
-    await user.removeNoteId(noteId);
+    const now = new Date().toISOString();
+    // An archived note that is deleted goes to the trash like any other.
+    if (!noteState.deletedAt) {
+      await note.patch({ deletedAt: now, archived: false, archivedAt: null });
+      await new TrashPurgeEntity(c.env, userId).schedule(Date.parse(now) + TRASH_RETENTION_MS);
+    }
+    return ok(c, await note.getVersionedState());
+  });
+  // --- Archive / Unarchive Note ---
+  // Archived notes are kept as they are but leave the note list, the login payload and full resyncs.
+  const setArchived = (archived: boolean) => async (c: Context<HonoContext>) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    if (noteState.deletedAt) return bad(c, 'Çöp kutusundaki notlar arşivlenemez.');
+    const now = new Date().toISOString();
+    await note.patch({ archived, archivedAt: archived ? now : null });
+    return ok(c, await note.getVersionedState());
+  };
+  noteRoutes.post('/:noteId/archive', setArchived(true));
+  noteRoutes.post('/:noteId/unarchive', setArchived(false));
+  // --- Restore Note From The Trash ---
+  noteRoutes.post('/:noteId/restore', async (c) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    if (noteState.deletedAt) await note.patch({ deletedAt: null });
+    return ok(c, await note.getVersionedState());
+  });
+  // --- Delete Note Permanently (only from the trash) ---
+  noteRoutes.delete('/:noteId/permanent', async (c) => {
+    const userId = c.get('userId');
+    const noteId = c.req.param('noteId');
+    const note = new NoteEntity(c.env, noteId);
+    if (!(await note.exists())) return notFound(c, 'Not bulunamadı.');
+    const noteState = await note.getState();
+    if (noteState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    if (!noteState.deletedAt) return bad(c, 'Not çöp kutusunda değil.');
+    await purgeNote(c.env, c.get('userEntity'), noteState);
     return ok(c, { success: true });
   });
   app.route('/api/notes', noteRoutes);
+  // --- Authenticated Tag Routes ---
+  // Tag names are encrypted in the browser like note titles; the server only sees ids and counts.
+  const tagRoutes = new Hono<HonoContext>();
+  tagRoutes.use('*', authenticateUser);
+  // --- List Tags ---
+  tagRoutes.get('/', async (c) => {
+    return ok(c, await c.get('userEntity').getTags());
+  });
+  // --- Create Tag ---
+  tagRoutes.post('/', async (c) => {
+    const encrypted = readCiphertext(c.get('body'));
+    if (!encrypted) return bad(c, 'Şifrelenmiş etiket adı gereklidir.');
+    const tag: Tag = { id: crypto.randomUUID(), name: "", ...encrypted, count: 0 };
+    await c.get('userEntity').addTag(tag);
+    return ok(c, tag);
+  });
+  // --- Rename Tag ---
+  // Notes refer to tags by id, so no note has to change.
+  tagRoutes.put('/:tagId', async (c) => {
+    const user = c.get('userEntity');
+    const tagId = c.req.param('tagId');
+    const encrypted = readCiphertext(c.get('body'));
+    if (!encrypted) return bad(c, 'Şifrelenmiş etiket adı gereklidir.');
+    if (!(await user.getTags()).some(t => t.id === tagId)) return notFound(c, 'Etiket bulunamadı.');
+    await user.updateTag(tagId, encrypted);
+    return ok(c, (await user.getTags()).find(t => t.id === tagId));
+  });
+  // --- Merge Tag Into Another ---
+  // Every note tagged with `:tagId` gets `targetId` instead, then `:tagId` is deleted.
+  tagRoutes.post('/:tagId/merge', async (c) => {
+    const user = c.get('userEntity');
+    const tagId = c.req.param('tagId');
+    const { targetId } = c.get('body');
+    const tags = await user.getTags();
+    if (!tags.some(t => t.id === tagId)) return notFound(c, 'Etiket bulunamadı.');
+    if (!isStr(targetId) || targetId === tagId || !tags.some(t => t.id === targetId)) return bad(c, 'Geçersiz hedef etiket.');
+    await rewriteTagAcrossNotes(c.env, user, tagId, noteTags => noteTags.map(id => id === tagId ? targetId : id));
+    await user.removeTag(tagId);
+    return ok(c, await user.getTags());
+  });
+  // --- Delete Tag ---
+  // Removes the tag from every note; the notes themselves stay.
+  tagRoutes.delete('/:tagId', async (c) => {
+    const user = c.get('userEntity');
+    const tagId = c.req.param('tagId');
+    if (!(await user.getTags()).some(t => t.id === tagId)) return notFound(c, 'Etiket bulunamadı.');
+    await rewriteTagAcrossNotes(c.env, user, tagId, noteTags => noteTags.filter(id => id !== tagId));
+    await user.removeTag(tagId);
+    return ok(c, { success: true });
+  });
+  app.route('/api/tags', tagRoutes);
+  // --- Authenticated Notebook Routes ---
+  const notebookRoutes = new Hono<HonoContext>();
+  notebookRoutes.use('*', authenticateUser);
+  // --- List Notebooks ---
+  notebookRoutes.get('/', async (c) => {
+    return ok(c, await loadNotebooks(c.env, c.get('userEntity')));
+  });
+  // --- Create Notebook ---
+  // The name arrives encrypted, like note content. New notebooks go last among their siblings.
+  notebookRoutes.post('/', async (c) => {
+    const user = c.get('userEntity');
+    const userId = c.get('userId');
+    const body = c.get('body');
+    const encrypted = readCiphertext(body);
+    if (!encrypted) return bad(c, 'Şifrelenmiş defter adı gereklidir.');
+    const parentId = await resolveNotebookId(c.env, userId, body.parentId);
+    if (parentId === undefined) return bad(c, 'Üst defter bulunamadı.');
+    const siblings = (await loadNotebooks(c.env, user)).filter(n => n.parentId === parentId);
+    const now = new Date().toISOString();
+    const notebook: Notebook = {
+      id: crypto.randomUUID(),
+      userId,
+      name: "",
+      ...encrypted,
+      parentId,
+      order: siblings.reduce((max, n) => Math.max(max, n.order + 1), 0),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await NotebookEntity.create(c.env, notebook);
+    await user.addNotebookId(notebook.id);
+    return ok(c, notebook);
+  });
+  // --- Rename, Move Or Reorder Notebook ---
+  // Accepts any of: a new encrypted name, `parentId` (null for top level) and `order`.
+  notebookRoutes.put('/:notebookId', async (c) => {
+    const user = c.get('userEntity');
+    const userId = c.get('userId');
+    const notebookId = c.req.param('notebookId');
+    const body = c.get('body');
+    const notebook = new NotebookEntity(c.env, notebookId);
+    if (!(await notebook.exists())) return notFound(c, 'Defter bulunamadı.');
+    const notebookState = await notebook.getState();
+    if (notebookState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const patch: Partial<Notebook> = { updatedAt: new Date().toISOString() };
+    const encrypted = readCiphertext(body);
+    if (encrypted) Object.assign(patch, encrypted);
+    if ('parentId' in body) {
+      const parentId = await resolveNotebookId(c.env, userId, body.parentId);
+      if (parentId === undefined) return bad(c, 'Üst defter bulunamadı.');
+      // Walk up from the new parent; meeting this notebook on the way would create a cycle.
+      const byId = new Map((await loadNotebooks(c.env, user)).map(n => [n.id, n]));
+      for (let id = parentId; id; id = byId.get(id)?.parentId ?? null) {
+        if (id === notebookId) return bad(c, 'Bir defter kendi alt defterine taşınamaz.');
+      }
+      patch.parentId = parentId;
+    }
+    if ('order' in body) {
+      if (typeof body.order !== 'number' || !Number.isFinite(body.order)) return bad(c, 'Geçersiz sıra.');
+      patch.order = body.order;
+    }
+    await notebook.patch(patch);
+    return ok(c, await notebook.getState());
+  });
+  // --- Delete Notebook ---
+  // Sub-notebooks and notes are not deleted; they move up into the deleted notebook's parent.
+  notebookRoutes.delete('/:notebookId', async (c) => {
+    const user = c.get('userEntity');
+    const userId = c.get('userId');
+    const notebookId = c.req.param('notebookId');
+    const notebook = new NotebookEntity(c.env, notebookId);
+    if (!(await notebook.exists())) return notFound(c, 'Defter bulunamadı.');
+    const notebookState = await notebook.getState();
+    if (notebookState.userId !== userId) return c.json({ success: false, error: 'Yetkisiz işlem.' }, 403);
+    const now = new Date().toISOString();
+    const children = (await loadNotebooks(c.env, user)).filter(n => n.parentId === notebookId);
+    await Promise.all(children.map(n => new NotebookEntity(c.env, n.id).patch({ parentId: notebookState.parentId, updatedAt: now })));
+    const noteIds = (await user.getState()).noteIds || [];
+    await Promise.all(noteIds.map(async (noteId) => {
+      const note = new NoteEntity(c.env, noteId);
+      if ((await note.getState()).notebookId === notebookId) await note.patch({ notebookId: notebookState.parentId });
+    }));
+    await NotebookEntity.delete(c.env, notebookId);
+    await user.removeNotebookIds([notebookId]);
+    return ok(c, { success: true });
+  });
+  app.route('/api/notebooks', notebookRoutes);
   // --- Authenticated User Management Routes ---
   const userManagementRoutes = new Hono<HonoContext>();
   userManagementRoutes.use('*', authenticateUser);
   // --- Change Password ---
   userManagementRoutes.put('/password', async (c) => {
     const user = c.get('userEntity');
-    const { newPassword } = c.get('body');
-    if (!isStr(newPassword) || newPassword.length < 6) {
-      return bad(c, 'Yeni şifre en az 6 karakter olmalıdır.');
+    const { newLoginSecret, vaultKey } = c.get('body');
+    // Re-check the current password (and second factor) so a stolen session token alone cannot take over the account.
+    const failed = await recheckCredentials(c, user, c.get('body'), !!(await user.getState()).totpSecret);
+    if (failed) return failed;
+    if (!isLoginSecret(newLoginSecret)) return bad(c, 'Yeni şifre gereklidir.');
+    // The data key must be re-wrapped with the new password, otherwise the notes become unreadable.
+    if (!isVaultKey(vaultKey)) return bad(c, 'Şifreleme anahtarı gereklidir.');
+    await user.updateLoginSecretHash(await hashPassword(newLoginSecret));
+    await user.updateVaultKey(vaultKey);
+    // Sign out every other device; the session making the change stays valid.
+    const { sessionIds } = await user.getState();
+    await revokeSessions(c.env, user, (sessionIds || []).filter(id => id !== c.get('sessionId')));
+    return ok(c, { success: true });
+  });
+  // --- Delete Account ---
+  // Requires the password like a password change. Every note with its revisions and search postings,
+  // every notebook and every session goes, and the username and any names it still holds become free again.
+  userManagementRoutes.delete('/', async (c) => {
+    const user = c.get('userEntity');
+    const userId = c.get('userId');
+    const userState = await user.getState();
+    const failed = await recheckCredentials(c, user, c.get('body'), !!userState.totpSecret);
+    if (failed) return failed;
+    const noteIds = userState.noteIds || [];
+    const notes = await Promise.all(noteIds.map(noteId => new NoteEntity(c.env, noteId).getState()));
+    for (const note of notes.filter(n => n.id)) {
+      await NoteEntity.relist(c.env, note, null);
+      await NoteRevisionEntity.deleteForNote(c.env, note.id);
+      await NoteSearchEntity.removeNote(c.env, userId, note.id);
     }
-    const newPasswordHash = await createHash(newPassword);
-    await user.updatePasswordHash(newPasswordHash);
+    await NoteEntity.deleteMany(c.env, noteIds);
+    await NotebookEntity.deleteMany(c.env, userState.notebookIds || []);
+    await revokeSessions(c.env, user, userState.sessionIds || []);
+    // Names given up by earlier renames are released too, expired or not, unless someone else holds one by now.
+    for (const name of userState.reservedUsernames || []) {
+      const reservation = new UsernameReservationEntity(c.env, name);
+      if ((await reservation.getState()).heldFor === userId) await reservation.delete();
+    }
+    await clearLoginFailures(c, userId);
+    await new TrashPurgeEntity(c.env, userId).delete();
+    await new NoteChangeLogEntity(c.env, userId).delete();
+    await UserEntity.delete(c.env, userId);
     return ok(c, { success: true });
   });
+  // --- Change Username ---
+  // The user id is the lowercase username and notes, notebooks and sessions point at it, so a rename
+  // moves the account to a new id: the new record is written first, everything pointing at the old id is
+  // rewritten, and the old record goes last. A rename that is cut off can be sent again and picks up where
+  // it stopped. The old name stays reserved for this account for a while; other devices are signed out.
+  userManagementRoutes.put('/username', async (c) => {
+    const user = c.get('userEntity');
+    const userId = c.get('userId');
+    const sessionId = c.get('sessionId');
+    const { username, newLoginSecret } = c.get('body');
+    const failed = await recheckCredentials(c, user, c.get('body'), !!(await user.getState()).totpSecret);
+    if (failed) return failed;
+    if (!isStr(username) || username.length < 3) return bad(c, 'Kullanıcı adı en az 3 karakter olmalıdır.');
+    const newId = username.toLowerCase();
+    // Only the spelling changes; the id stays the same.
+    if (newId === userId) {
+      await user.patch({ username });
+      return ok(c, { username });
+    }
+    // The login secret is derived with the lowercase username, so the new name comes with a new one.
+    if (!isLoginSecret(newLoginSecret)) return bad(c, 'Yeni kullanıcı adı için giriş anahtarı gereklidir.');
+    const target = new UserEntity(c.env, newId);
+    if (await target.exists() && (await target.getState()).renamedFrom !== userId) return bad(c, 'Bu kullanıcı adı zaten alınmış.');
+    const holder = await new UsernameReservationEntity(c.env, newId).getHolder();
+    if (holder && holder !== userId) return bad(c, 'Bu kullanıcı adı zaten alınmış.');
+    const userState = await user.getState();
+    await revokeSessions(c.env, user, (userState.sessionIds || []).filter(id => id !== sessionId));
+    const reservedUsernames = [...new Set([...(userState.reservedUsernames || []), userId])].filter(name => name !== newId);
+    await UserEntity.create(c.env, { ...userState, ...(await hashPassword(newLoginSecret)), id: newId, username, sessionIds: [sessionId], renamedFrom: userId, reservedUsernames });
+    // The change log moves along before the notes do, so the client's sync cursor stays valid under the new id.
+    const changeLog = new NoteChangeLogEntity(c.env, newId);
+    if (!(await changeLog.exists())) await changeLog.save(await new NoteChangeLogEntity(c.env, userId).getState());
+    for (const noteId of userState.noteIds || []) {
+      const note = new NoteEntity(c.env, noteId);
+      if (!(await note.exists()) || (await note.getState()).userId !== userId) continue; // moved before the cut-off
+      await NoteSearchEntity.moveNote(c.env, userId, newId, noteId);
+      await note.patch({ userId: newId }); // also moves its entry in the note list index
+    }
+    for (const notebookId of userState.notebookIds || []) {
+      const notebook = new NotebookEntity(c.env, notebookId);
+      if (await notebook.exists()) await notebook.patch({ userId: newId });
+    }
+    // Names given up by earlier renames stay held for this account under its new id; expired ones are forgotten.
+    if (holder) await new UsernameReservationEntity(c.env, newId).delete();
+    const until = Date.now() + USERNAME_RESERVATION_MS;
+    const held: string[] = [];
+    for (const name of reservedUsernames) {
+      const reservation = new UsernameReservationEntity(c.env, name);
+      if (name === userId) {
+        await reservation.save({ heldFor: newId, until });
+      } else {
+        const heldFor = await reservation.getHolder();
+        if (heldFor !== userId && heldFor !== newId) continue;
+        if (heldFor === userId) await reservation.patch({ heldFor: newId });
+      }
+      held.push(name);
+    }
+    await new SessionEntity(c.env, sessionId).patch({ userId: newId });
+    // The purge scheduled under the old id finds no user and stops; the trash is picked up under the new one.
+    await new TrashPurgeEntity(c.env, newId).schedule(Date.now());
+    await new NoteChangeLogEntity(c.env, userId).delete();
+    await UserEntity.delete(c.env, userId);
+    await target.patch({ renamedFrom: null, reservedUsernames: held });
+    return ok(c, { username });
+  });
+  // --- Two-Factor Authentication (TOTP) ---
+  userManagementRoutes.get('/2fa', async (c) => {
+    const { totpSecret, recoveryCodeHashes } = await c.get('userEntity').getState();
+    const status: TwoFactorStatus = { enabled: !!totpSecret, recoveryCodesLeft: totpSecret ? (recoveryCodeHashes || []).length : 0 };
+    return ok(c, status);
+  });
+  // Enrolling takes two steps: setup offers a new secret, and enable switches it on once the
+  // authenticator app shows a code that matches, so a mistyped secret cannot lock the user out.
+  userManagementRoutes.post('/2fa/setup', async (c) => {
+    const user = c.get('userEntity');
+    const failed = await recheckCredentials(c, user, c.get('body'), false);
+    if (failed) return failed;
+    const { totpSecret, username } = await user.getState();
+    if (totpSecret) return bad(c, 'İki adımlı doğrulama zaten açık.');
+    const secret = generateTotpSecret();
+    await user.patch({ totpPendingSecret: secret });
+    const setup: TwoFactorSetup = { secret, otpauthUri: totpUri(secret, 'VaultNote', username) };
+    return ok(c, setup);
+  });
+  userManagementRoutes.post('/2fa/enable', async (c) => {
+    const user = c.get('userEntity');
+    const { code } = c.get('body');
+    const { totpSecret, totpPendingSecret, sessionIds } = await user.getState();
+    if (totpSecret) return bad(c, 'İki adımlı doğrulama zaten açık.');
+    if (!totpPendingSecret) return bad(c, 'Önce kurulumu başlatın.');
+    // Wrong codes count towards the login lockout, like every other credential check.
+    const lockedUntil = await getLoginLockout(c, user.id);
+    if (lockedUntil) return tooManyAttempts(c, lockedUntil);
+    const step = isStr(code) ? await verifyTotp(totpPendingSecret, code.replace(/\s/g, ''), 0) : null;
+    if (step === null) {
+      const nowLockedUntil = await recordLoginFailure(c, user.id);
+      if (nowLockedUntil) return tooManyAttempts(c, nowLockedUntil);
+      return bad(c, 'Doğrulama kodu yanlış.');
+    }
+    const recoveryCodes = generateRecoveryCodes();
+    await user.patch({
+      totpSecret: totpPendingSecret,
+      totpPendingSecret: null,
+      totpLastStep: step,
+      recoveryCodeHashes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+    });
+    // Other devices signed in with the password alone.
+    await revokeSessions(c.env, user, (sessionIds || []).filter(id => id !== c.get('sessionId')));
+    const result: RecoveryCodes = { recoveryCodes };
+    return ok(c, result);
+  });
+  // New recovery codes replace all the old ones, used or not.
+  userManagementRoutes.post('/2fa/recovery-codes', async (c) => {
+    const user = c.get('userEntity');
+    if (!(await user.getState()).totpSecret) return bad(c, 'İki adımlı doğrulama açık değil.');
+    const failed = await recheckCredentials(c, user, c.get('body'), true);
+    if (failed) return failed;
+    const recoveryCodes = generateRecoveryCodes();
+    await user.patch({ recoveryCodeHashes: await Promise.all(recoveryCodes.map(hashRecoveryCode)) });
+    const result: RecoveryCodes = { recoveryCodes };
+    return ok(c, result);
+  });
+  userManagementRoutes.delete('/2fa', async (c) => {
+    const user = c.get('userEntity');
+    if (!(await user.getState()).totpSecret) return bad(c, 'İki adımlı doğrulama açık değil.');
+    const failed = await recheckCredentials(c, user, c.get('body'), true);
+    if (failed) return failed;
+    await user.patch({ totpSecret: null, totpPendingSecret: null, totpLastStep: 0, recoveryCodeHashes: [] });
+    return ok(c, { success: true });
+  });
+  // --- Set Vault Key (one-time, for accounts created before encryption) ---
+  userManagementRoutes.put('/vault-key', async (c) => {
+    const user = c.get('userEntity');
+    const { vaultKey } = c.get('body');
+    if (!isVaultKey(vaultKey)) return bad(c, 'Şifreleme anahtarı gereklidir.');
+    if (await user.getVaultKey()) return bad(c, 'Şifreleme anahtarı zaten ayarlanmış.');
+    await user.updateVaultKey(vaultKey);
+    return ok(c, { success: true });
+  });
+  // --- Note List Preferences (sort order and manual order, shared across devices) ---
+  userManagementRoutes.get('/note-list', async (c) => {
+    return ok(c, await c.get('userEntity').getNoteListPreferences());
+  });
+  userManagementRoutes.put('/note-list', async (c) => {
+    const user = c.get('userEntity');
+    const { sort, order } = c.get('body');
+    if (sort !== undefined && !isNoteSort(sort)) return bad(c, 'Geçersiz sıralama.');
+    if (order !== undefined && (!Array.isArray(order) || !order.every(isStr))) return bad(c, 'Geçersiz not sırası.');
+    // Only the user's own notes are kept, once each, so the stored order cannot grow without bound.
+    const { noteIds } = await user.getState();
+    const owned = new Set(noteIds || []);
+    return ok(c, await user.updateNoteListPreferences({
+      sort,
+      order: order === undefined ? undefined : [...new Set(order)].filter(id => owned.has(id)),
+    }));
+  });
+  // --- Account Backup ---
+  // Everything in the account, including archived notes and the trash. It is only useful together with
+  // the data key, which the browser adds before encrypting the whole bundle with the user's passphrase.
+  userManagementRoutes.get('/backup', async (c) => {
+    const user = c.get('userEntity');
+    const userState = await user.getState();
+    const notes = await Promise.all((userState.noteIds || []).map(noteId => new NoteEntity(c.env, noteId).getState()));
+    const backup: AccountBackup = {
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      username: userState.username,
+      noteList: await user.getNoteListPreferences(),
+      notes: notes.filter(n => n.id),
+      notebooks: await loadNotebooks(c.env, user),
+      tags: (userState.tags || []).map(t => ({ ...t, count: 0 })),
+    };
+    return ok(c, backup);
+  });
+  // --- Restore A Backup ---
+  // A restore is sent in steps (see RestoreRequest), each checked in full before anything of it is
+  // written. Notes keep their ids where they are free, so the manual order survives a restore.
+  const isRestoreMode = (mode: unknown): mode is RestoreMode => mode === 'merge' || mode === 'replace';
+  userManagementRoutes.post('/restore', async (c) => {
+    const user = c.get('userEntity');
+    const body = c.get('body');
+    if (body.version !== BACKUP_VERSION) return bad(c, 'Desteklenmeyen yedek sürümü.');
+    if (!isRestoreMode(body.mode)) return bad(c, 'Geçersiz geri yükleme türü.');
+    const tags = readBackupEntries(body.tags);
+    const notebooks = readBackupEntries(body.notebooks);
+    if (!tags || !notebooks) return bad(c, 'Yedek dosyası bozuk.');
+    const tagIds = await restoreTags(user, tags, body.mode === 'replace');
+    const notebookIds = await restoreNotebooks(c.env, user, c.get('userId'), notebooks, body.mode === 'replace');
+    const started: RestoreStarted = { notebookIds: Object.fromEntries(notebookIds), tagIds: [...tagIds] };
+    return ok(c, started);
+  });
+  // Up to MAX_IMPORT_BATCH notes. With 'merge', notes whose id is in the account already are skipped;
+  // with 'replace', those are overwritten in place. Every note is added to the user as it is stored.
+  userManagementRoutes.post('/restore/notes', async (c) => {
+    const user = c.get('userEntity');
+    const userId = c.get('userId');
+    const { mode, notes: entries } = c.get('body');
+    if (!isRestoreMode(mode)) return bad(c, 'Geçersiz geri yükleme türü.');
+    if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_IMPORT_BATCH) return bad(c, 'Geçersiz geri yükleme isteği.');
+    const owned = new Set((await user.getState()).noteIds || []);
+    const now = new Date().toISOString();
+    const result: RestoreNotesResult = { noteIds: {}, skipped: 0 };
+    const ready: { backupId: string | null; note: Note; searchTokens: Record<string, number> | null }[] = [];
+    for (const entry of entries) {
+      const item = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {};
+      const backupId = isStr(item.id) ? item.id : null;
+      if (mode === 'merge' && backupId && owned.has(backupId)) {
+        result.skipped++;
+        continue;
+      }
+      const note = await readNewNote(c.env, user, userId, item, now);
+      const timestamps = typeof note === 'string' ? null : readImportTimestamps(item, now);
+      if (typeof note === 'string' || !timestamps) return bad(c, `Yedek dosyası bozuk: ${typeof note === 'string' ? note : 'Geçersiz tarih.'}`);
+      Object.assign(note, timestamps, readRestoredFlags(item));
+      ready.push({ backupId, note, searchTokens: readSearchTokens(item) });
+    }
+    for (const { backupId, note, searchTokens } of ready) {
+      if (backupId && owned.has(backupId)) {
+        if (!(await overwriteNote(c.env, user, backupId, note, searchTokens))) return c.json({ success: false, error: 'Not başka bir yerde değiştirildi.' }, 409);
+        note.id = backupId;
+      } else {
+        if (backupId && !(await new NoteEntity(c.env, backupId).exists())) note.id = backupId;
+        await storeNewNote(c.env, user, note, searchTokens);
+        await user.addNoteId(note.id);
+      }
+      result.noteIds[backupId ?? note.id] = note.id;
+    }
+    // Restored notes may have been in the trash for a while already.
+    if (ready.some(r => r.note.deletedAt)) await new TrashPurgeEntity(c.env, userId).schedule(Date.now());
+    return ok(c, result);
+  });
+  // With 'replace', deletes whatever the restore did not bring, MAX_IMPORT_BATCH notes per call, and
+  // takes the backup's list settings; a merge keeps the current ones.
+  userManagementRoutes.post('/restore/finish', async (c) => {
+    const user = c.get('userEntity');
+    const { mode, noteList, noteIds, notebookIds, tagIds } = c.get('body');
+    if (!isRestoreMode(mode)) return bad(c, 'Geçersiz geri yükleme türü.');
+    const isIdList = (v: unknown): v is string[] => Array.isArray(v) && v.every(isStr);
+    if (!isIdList(noteIds) || !isIdList(notebookIds) || !isIdList(tagIds)) return bad(c, 'Geçersiz geri yükleme isteği.');
+    if (mode === 'replace') {
+      const userState = await user.getState();
+      const keep = new Set(noteIds);
+      const old = (userState.noteIds || []).filter(id => !keep.has(id)).slice(0, MAX_IMPORT_BATCH);
+      if (old.length > 0) {
+        for (const noteId of old) {
+          const note = await new NoteEntity(c.env, noteId).getState();
+          if (note.id) await purgeNote(c.env, user, note);
+          else await user.removeNoteId(noteId);
+        }
+        const progress: RestoreFinishResult = { done: false, cursor: (await new NoteChangeLogEntity(c.env, user.id).getState()).seq };
+        return ok(c, progress);
+      }
+      const keepNotebooks = new Set(notebookIds);
+      const oldNotebooks = (userState.notebookIds || []).filter(id => !keepNotebooks.has(id));
+      await NotebookEntity.deleteMany(c.env, oldNotebooks);
+      await user.removeNotebookIds(oldNotebooks);
+      const keepTags = new Set(tagIds);
+      for (const tag of userState.tags || []) if (!keepTags.has(tag.id)) await user.removeTag(tag.id);
+      if (typeof noteList === 'object' && noteList !== null) {
+        const { sort, order } = noteList as Record<string, unknown>;
+        await user.updateNoteListPreferences({
+          sort: isNoteSort(sort) ? sort : undefined,
+          order: isIdList(order) ? [...new Set(order)].filter(id => keep.has(id)) : undefined,
+        });
+      }
+    }
+    const result: RestoreFinishResult = { done: true, cursor: (await new NoteChangeLogEntity(c.env, user.id).getState()).seq };
+    return ok(c, result);
+  });
   app.route('/api/user', userManagementRoutes);
 }
\ No newline at end of file